@@ -0,0 +1,91 @@
+/**
+ * Validates the 360° manifest with the same rules Viewer360 applies at
+ * runtime (src/terrain-ar/manifest.ts) and prints the report.
+ *
+ *   npm run check-manifest                 # src/assets/360/manifest.json
+ *   npm run check-manifest -- --files      # also check folders / images / thumbs on disk
+ *   npm run check-manifest -- path/to/manifest.json
+ *
+ * Exits with code 1 when the report contains errors.
+ */
+
+import * as fs   from 'fs'
+import * as path from 'path'
+import {AudioSource, ManifestIssue, VIDEO_EXT_RE, formatIssue, validateManifest} from '../src/terrain-ar/manifest'
+
+const DEFAULT_MANIFEST = 'src/assets/360/manifest.json'
+
+// Mirrors the file layout Viewer360 loads (see viewer-360.ts).
+const IMAGE_EXT    = '.jpg'
+const TILE_PREVIEW = 'preview'
+const CUBE_FACES   = ['px', 'nx', 'py', 'ny', 'pz', 'nz']
+const THUMB_DIR    = 'thumbs'
+
+function main(): void {
+  const args      = process.argv.slice(2)
+  const withFiles = args.includes('--files')
+  const file      = args.find(a => !a.startsWith('--')) ?? DEFAULT_MANIFEST
+
+  let raw: unknown
+  try {
+    raw = JSON.parse(fs.readFileSync(file, 'utf8'))
+  } catch (err) {
+    console.error(`ERROR could not read ${file}: ${(err as Error).message}`)
+    process.exit(1)
+  }
+
+  const { manifest, issues } = validateManifest(raw)
+  if (withFiles) issues.push(...checkFiles(path.dirname(file), manifest))
+
+  for (const issue of issues) console.log(formatIssue(issue))
+  const errors = issues.filter(i => i.level === 'error').length
+  console.log(
+    `\n${file}: ${Object.keys(manifest).length} hotspot(s), ` +
+    `${errors} error(s), ${issues.length - errors} warning(s)`,
+  )
+  process.exit(errors ? 1 : 0)
+}
+
+/** Checks that every folder, image and audio file the viewer would request exists. */
+function checkFiles(root: string, manifest: ReturnType<typeof validateManifest>['manifest']): ManifestIssue[] {
+  const issues: ManifestIssue[] = []
+  for (const [name, entry] of Object.entries(manifest)) {
+    if (!entry.images.length) continue
+    const dir = path.join(root, entry.folder)
+    if (!fs.existsSync(dir)) {
+      issues.push({ level: 'error', hotspot: name, path: 'folder', message: `folder not found: ${dir}` })
+      continue
+    }
+    entry.images.forEach((stem, i) => {
+      let files: string[]
+      if (VIDEO_EXT_RE.test(stem))               files = [stem]
+      else if (entry.projection === 'cubemap')   files = CUBE_FACES.map(f => path.join(stem, f + IMAGE_EXT))
+      else if (entry.tiles?.[i])                 files = [path.join(stem, TILE_PREVIEW + IMAGE_EXT)]
+      else                                       files = [stem + IMAGE_EXT]
+      for (const f of files) {
+        if (fs.existsSync(path.join(dir, f))) continue
+        issues.push({ level: 'error', hotspot: name, path: `images[${i}]`, message: `file not found: ${path.join(dir, f)}` })
+      }
+      // The picker only appears for hotspots with several images.
+      const thumb = path.join(THUMB_DIR, stem.replace(VIDEO_EXT_RE, '') + IMAGE_EXT)
+      if (entry.images.length > 1 && !fs.existsSync(path.join(dir, thumb))) {
+        issues.push({ level: 'warning', hotspot: name, path: `images[${i}]`,
+          message: `no thumbnail ${path.join(dir, thumb)} — run npm run make-thumbs` })
+      }
+    })
+    const audio: Array<[string, AudioSource | null | undefined]> = [
+      ['ambient', entry.ambient],
+      ...(entry.audio ?? []).map((src, i): [string, AudioSource | null] => [`audio[${i}]`, src]),
+    ]
+    for (const [where, src] of audio) {
+      if (!src) continue
+      for (const f of typeof src === 'string' ? [src] : Object.values(src)) {
+        if (fs.existsSync(path.join(dir, f))) continue
+        issues.push({ level: 'error', hotspot: name, path: where, message: `file not found: ${path.join(dir, f)}` })
+      }
+    }
+  }
+  return issues
+}
+
+main()
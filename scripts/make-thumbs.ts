@@ -0,0 +1,114 @@
+/**
+ * Generates the thumbnails shown in Viewer360's image picker:
+ * <folder>/thumbs/<stem>.jpg, a 320×180 crop around the horizon of each image.
+ *
+ *   npm run make-thumbs                    # src/assets/360/manifest.json
+ *   npm run make-thumbs -- --force         # regenerate up-to-date thumbs too
+ *   npm run make-thumbs -- path/to/manifest.json
+ *
+ * Needs ImageMagick (`magick`, or `convert` for v6) on the PATH, and ffmpeg
+ * for video images. A thumbnail newer than its source is skipped.
+ */
+
+import * as fs   from 'fs'
+import * as path from 'path'
+import {execFileSync} from 'child_process'
+import {HotspotEntry, VIDEO_EXT_RE, validateManifest} from '../src/terrain-ar/manifest'
+
+const DEFAULT_MANIFEST = 'src/assets/360/manifest.json'
+
+// Mirrors the file layout Viewer360 loads (see viewer-360.ts).
+const IMAGE_EXT    = '.jpg'
+const TILE_PREVIEW = 'preview'
+const THUMB_DIR    = 'thumbs'
+const CUBE_FRONT   = 'nx'   // yaw 0 faces the centre of nx
+
+const THUMB_SIZE    = '320x180'
+const THUMB_QUALITY = '75'
+
+function main(): void {
+  const args  = process.argv.slice(2)
+  const force = args.includes('--force')
+  const file  = args.find(a => !a.startsWith('--')) ?? DEFAULT_MANIFEST
+  const root  = path.dirname(file)
+  const magick = findMagick()
+
+  const { manifest } = validateManifest(JSON.parse(fs.readFileSync(file, 'utf8')))
+  let made = 0, skipped = 0, failed = 0
+
+  for (const [name, entry] of Object.entries(manifest)) {
+    const dir = path.join(root, entry.folder)
+    entry.images.forEach((stem, i) => {
+      const src = sourceFile(dir, entry, i)
+      const out = path.join(dir, THUMB_DIR, stem.replace(VIDEO_EXT_RE, '') + IMAGE_EXT)
+      if (!fs.existsSync(src)) {
+        console.warn(`SKIP ${name}.images[${i}]: ${src} not found`)
+        failed++
+        return
+      }
+      if (!force && fs.existsSync(out) && fs.statSync(out).mtimeMs >= fs.statSync(src).mtimeMs) {
+        skipped++
+        return
+      }
+      fs.mkdirSync(path.dirname(out), { recursive: true })
+      try {
+        if (VIDEO_EXT_RE.test(stem)) thumbFromVideo(src, out)
+        else thumbFromImage(magick, src, out, entry.projection === 'cubemap')
+        console.log(`made ${out}`)
+        made++
+      } catch (err) {
+        console.warn(`FAIL ${name}.images[${i}]: ${(err as Error).message}`)
+        failed++
+      }
+    })
+  }
+
+  console.log(`\n${made} made, ${skipped} up to date, ${failed} failed`)
+  process.exit(failed ? 1 : 0)
+}
+
+/** The smallest file that shows the whole image. */
+function sourceFile(dir: string, entry: HotspotEntry, i: number): string {
+  const stem = entry.images[i]
+  if (VIDEO_EXT_RE.test(stem))             return path.join(dir, stem)
+  if (entry.projection === 'cubemap')      return path.join(dir, stem, CUBE_FRONT + IMAGE_EXT)
+  if (entry.tiles?.[i])                    return path.join(dir, stem, TILE_PREVIEW + IMAGE_EXT)
+  return path.join(dir, stem + IMAGE_EXT)
+}
+
+/**
+ * Equirect: the middle half in both directions (yaw 90–270 around the
+ * horizon) filled into 16:9. A cube face is square, so it is just filled.
+ */
+function thumbFromImage(magick: string[], src: string, out: string, cubeFace: boolean): void {
+  const crop = cubeFace ? [] : ['-gravity', 'center', '-crop', '50%x50%+0+0', '+repage']
+  execFileSync(magick[0], [
+    ...magick.slice(1), src, ...crop,
+    '-resize', `${THUMB_SIZE}^`, '-gravity', 'center', '-extent', THUMB_SIZE,
+    '-strip', '-quality', THUMB_QUALITY, out,
+  ], { stdio: 'pipe' })
+}
+
+/** Grabs a frame one second in, cropped like an equirect image. */
+function thumbFromVideo(src: string, out: string): void {
+  const [w, h] = THUMB_SIZE.split('x')
+  execFileSync('ffmpeg', [
+    '-y', '-loglevel', 'error', '-ss', '1', '-i', src, '-frames:v', '1',
+    '-vf', `crop=iw/2:ih/2,scale=${w}:${h}:force_original_aspect_ratio=increase,crop=${w}:${h}`,
+    '-q:v', '4', out,
+  ], { stdio: 'pipe' })
+}
+
+/** ImageMagick 7 (`magick`) or 6 (`convert`), as an argv prefix. */
+function findMagick(): string[] {
+  for (const cmd of [['magick'], ['convert']]) {
+    try {
+      execFileSync(cmd[0], ['-version'], { stdio: 'ignore' })
+      return cmd
+    } catch { /* try the next one */ }
+  }
+  console.error('ERROR ImageMagick not found — install it so `magick` or `convert` is on the PATH')
+  process.exit(1)
+}
+
+main()
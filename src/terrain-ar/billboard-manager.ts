@@ -1,3 +1,5 @@
+import {DeclutterMode, LabelItem, layoutLabels} from './label-layout'
+
 export interface BillboardOptions {
   baseSize?:       number
   verticalOffset?: number
@@ -14,6 +16,52 @@ export interface BillboardOptions {
    * is reflected in the camera matrix.
    */
   getCamera?:      () => any
+  /**
+   * Hide billboards whose label is behind the terrain from the camera's point
+   * of view (fading out, and no longer tappable). Default true.
+   */
+  occlusion?:      boolean
+  /**
+   * Resolves overlapping labels on screen, keeping hotspots over pins over
+   * mountains: 'hide' fades the losers out, 'stack' lifts them above the
+   * label in the way (hiding them if that is not enough). Default 'hide'.
+   */
+  declutter?:      DeclutterMode
+  /**
+   * Leader line from each label down to its ground anchor, plus a dot on the
+   * anchor, per POI type. Types left out get neither. Default none.
+   */
+  leaders?:        Partial<Record<PoiType, LeaderStyle>>
+  /** Level-of-detail rules driven by each label's on-screen size. */
+  lod?:            LodOptions
+}
+
+export interface LodOptions {
+  /**
+   * Mountain labels fade out as their on-screen height drops from the first
+   * to the second value, in CSS px. Default [16, 10].
+   */
+  mountainFadePx?: [number, number]
+  /** Hotspot pins never get smaller than this on screen, in CSS px. Default 40. */
+  hotspotMinPx?:   number
+  /**
+   * Below this on-screen height (CSS px) a label is swapped for a compact
+   * round icon of its type. 0 disables. Default 0.
+   */
+  compactBelowPx?: number
+}
+
+export interface LeaderStyle {
+  /** Lift of the label above its anchor, in label heights. Default 0. */
+  length?:  number
+  /** Line and dot colour. Default 0xffffff. */
+  color?:   number
+  /** Line and dot opacity, 0–1 (times the label's). Default 0.8. */
+  opacity?: number
+  /** Draw a dot on the anchor. Default true. */
+  dot?:     boolean
+  /** Dot diameter, in label heights. Default 0.12. */
+  dotSize?: number
 }
 
 const ASSET_PATHS = {
@@ -28,16 +76,68 @@ const PREFIXES = {
   pin:      'pin_',
 } as const
 
-type PoiType = keyof typeof PREFIXES
+export type PoiType = keyof typeof PREFIXES
+
+/** A POI's anchor node in the terrain graph, for consumers like MiniMap. */
+export interface PoiAnchor {
+  name:   string
+  type:   PoiType
+  anchor: any
+}
 
 const TAP_MAX_MOVE_PX = 10
 const TAP_MAX_MS      = 300
 
+// Terrain occlusion. The terrain is a single ~114k-triangle mesh without a
+// BVH, so one ray costs a full pass over it: a single billboard is tested
+// every OCCLUSION_INTERVAL_MS, round-robin, whatever the frame rate. A
+// billboard changes state after OCCLUSION_VOTES agreeing tests in a row, so
+// labels on a ridge line don't flicker, then fades over OCCLUSION_FADE_MS.
+//
+// The ray targets the middle of the label rather than the anchor itself: the
+// anchor lies on the terrain surface, so a ray to it grazes the slope it
+// stands on, and a summit label standing clear above a ridge is still worth
+// showing (and tapping) when only its foot is hidden.
+const OCCLUSION_INTERVAL_MS    = 50
+const OCCLUSION_VOTES          = 2
+const OCCLUSION_FADE_MS        = 250
+const OCCLUSION_MARGIN         = 0.5   // of the sprite height, before the label
+
+// Declutter layout (see label-layout.ts).
+const DECLUTTER_PRIORITY: Record<PoiType, number> = { hotspot: 0, pin: 1, mountain: 2 }
+const DECLUTTER_PADDING_PX = 6     // hysteresis gap a hidden label must clear
+const STACK_EASE_MS        = 150   // time constant of the lift animation
+
+const DOT_TEX_PX = 32
+
+// Compact LOD icons: drawn once per type. A compact label returns to its full
+// texture only once COMPACT_HYSTERESIS × the threshold is reached again.
+const COMPACT_TEX_PX     = 64
+const COMPACT_HYSTERESIS = 1.2
+const COMPACT_COLORS: Record<PoiType, string> = {
+  hotspot:  '#4ab8d8',
+  mountain: '#6b7f99',
+  pin:      '#3cc878',
+}
+
 interface Billboard {
   sprite: any
   anchor: any
   name:   string
   type:   PoiType
+  occluded: boolean
+  votes:    number   // consecutive tests disagreeing with `occluded`
+  opacity:  number
+  dotOpacity:  number   // like `opacity`, but ignores decluttering
+  decluttered: boolean
+  lift:        number   // current upward offset in world units ('stack')
+  liftTarget:  number
+  ground:      any      // anchor world position
+  leader:      any      // THREE.Line, or null without a LeaderStyle
+  dot:         any      // THREE.Sprite, or null
+  icon:        any      // full texture, restored when leaving compact mode
+  compact:     boolean
+  lodAlpha:    number   // size-based fade, multiplied into the opacity
 }
 
 export class BillboardManager {
@@ -46,6 +146,18 @@ export class BillboardManager {
   private _scale: any
   private opts:   Required<BillboardOptions>
 
+  private _terrainMeshes: any[] = []
+  private _raycaster:  any
+  private _camPos:     any
+  private _up:         any
+  private _nextOcclusion = 0   // round-robin index into billboards
+  private _lastOcclusion = 0   // performance.now() of the last occlusion ray
+  private _lastUpdate    = 0
+  private _leaderStyles:  Partial<Record<PoiType, Required<LeaderStyle>>> = {}
+  private _dotTexture:    any = null
+  private _compactTextures: Partial<Record<PoiType, any>> = {}
+  private _lod:           Required<LodOptions>
+
   private _tapStart:       { x: number; y: number; t: number } | null = null
   private _tapListener:    ((e: TouchEvent) => void) | null = null
   private _tapEndListener: ((e: TouchEvent) => void) | null = null
@@ -61,6 +173,24 @@ export class BillboardManager {
       onHotspotTap:   opts.onHotspotTap   ?? (() => {}),
       scaleOverrides: opts.scaleOverrides  ?? {},
       getCamera:      opts.getCamera       ?? (() => null),
+      occlusion:      opts.occlusion       ?? true,
+      declutter:      opts.declutter       ?? 'hide',
+      leaders:        opts.leaders         ?? {},
+      lod:            opts.lod             ?? {},
+    }
+    this._lod = {
+      mountainFadePx: this.opts.lod.mountainFadePx ?? [16, 10],
+      hotspotMinPx:   this.opts.lod.hotspotMinPx   ?? 40,
+      compactBelowPx: this.opts.lod.compactBelowPx ?? 0,
+    }
+    for (const [type, style] of Object.entries(this.opts.leaders) as Array<[PoiType, LeaderStyle]>) {
+      this._leaderStyles[type] = {
+        length:  style.length  ?? 0,
+        color:   style.color   ?? 0xffffff,
+        opacity: style.opacity ?? 0.8,
+        dot:     style.dot     ?? true,
+        dotSize: style.dotSize ?? 0.12,
+      }
     }
   }
 
@@ -68,12 +198,17 @@ export class BillboardManager {
     const { THREE, opts } = this
     this._v3    = new THREE.Vector3()
     this._scale = new THREE.Vector3()
+    this._raycaster = new THREE.Raycaster()
+    this._camPos    = new THREE.Vector3()
+    this._up        = new THREE.Vector3()
+    this._terrainMeshes = []
 
     const loader   = new THREE.TextureLoader()
     const pending: Promise<void>[] = []
     const hotspotNames: string[]   = []
 
     terrainObject.traverse((node: any) => {
+      if (node.isMesh) this._terrainMeshes.push(node)
       const type = this._detectType(node.name)
       if (!type) return
 
@@ -89,7 +224,7 @@ export class BillboardManager {
           (texture: any) => {
             const sprite = this._makeSprite(texture)
             scene.add(sprite)
-            this.billboards.push({ sprite, anchor: node, name, type })
+            this.billboards.push(this._makeBillboard(sprite, node, name, type, scene))
             resolve()
           },
           undefined,
@@ -97,7 +232,7 @@ export class BillboardManager {
             if (opts.debug) {
               const sprite = this._makeDebugSprite(name, type)
               scene.add(sprite)
-              this.billboards.push({ sprite, anchor: node, name, type })
+              this.billboards.push(this._makeBillboard(sprite, node, name, type, scene))
             }
             resolve()
           },
@@ -111,29 +246,72 @@ export class BillboardManager {
   }
 
   update(terrainObject: any): void {
-    const { opts, _v3, _scale } = this
+    const { opts, _scale, _camPos } = this
     terrainObject.getWorldScale(_scale)
     const ts = _scale.x
 
-    for (const { sprite, anchor, name } of this.billboards) {
-      anchor.getWorldPosition(_v3)
-      sprite.position.copy(_v3)
+    // CSS px per world unit at distance 1 (perspective cameras only).
+    const cam       = this._getCamera()
+    const pxPerUnit = cam?.isPerspectiveCamera
+      ? cam.projectionMatrix.elements[5] * window.innerHeight / 2
+      : 0
+    if (pxPerUnit) cam.getWorldPosition(_camPos)
+
+    for (const b of this.billboards) {
+      const { sprite, anchor, name, type, ground } = b
+      anchor.getWorldPosition(ground)
+      sprite.position.copy(ground)
 
       const multiplier = opts.scaleOverrides[name] ?? 1.0
-      const size  = opts.baseSize * multiplier * ts
-      const ratio = this._getAspect(sprite)
+      const natural = opts.baseSize * multiplier * ts
+      const px      = pxPerUnit ? natural * pxPerUnit / Math.max(1e-6, ground.distanceTo(_camPos)) : Infinity
+      const size    = this._applyLod(b, natural, px)
+      const ratio   = this._getAspect(sprite)
       sprite.scale.set(size * ratio, size, 1)
+
+      const leader = this._leaderStyles[type]
+      if (leader) sprite.position.y += leader.length * size
     }
+
+    const now = performance.now()
+    const dt  = this._lastUpdate ? now - this._lastUpdate : 0
+    this._lastUpdate = now
+    if (opts.occlusion) this._testOcclusion(now)
+    this._layout()
+    this._applyLift(dt)
+    this._applyOpacity(dt)
+    this._updateLeaders()
   }
 
   dispose(scene: any): void {
     this._detachTapListener()
-    for (const { sprite } of this.billboards) {
+    for (const { sprite, leader, dot, icon } of this.billboards) {
       scene.remove(sprite)
-      sprite.material.map?.dispose()
+      icon?.dispose()
       sprite.material.dispose()
+      if (leader) {
+        scene.remove(leader)
+        leader.geometry.dispose()
+        leader.material.dispose()
+      }
+      if (dot) {
+        scene.remove(dot)
+        dot.material.dispose()
+      }
     }
+    this._dotTexture?.dispose()
+    this._dotTexture = null
+    for (const tex of Object.values(this._compactTextures)) tex.dispose()
+    this._compactTextures = {}
     this.billboards = []
+    this._terrainMeshes = []
+    this._nextOcclusion = 0
+    this._lastOcclusion = 0
+    this._lastUpdate    = 0
+  }
+
+  getAnchors(): PoiAnchor[] {
+    return this.billboards.map(({ name, type, anchor }) => ({ name, type, anchor }))
   }
 
   getSprite(name: string): any | undefined {
@@ -165,7 +343,8 @@ export class BillboardManager {
   }
 
   private _checkHotspotHit(clientX: number, clientY: number): void {
-    const hotspots = this.billboards.filter(b => b.type === 'hotspot' && b.sprite.visible)
+    const hotspots = this.billboards.filter(b =>
+      b.type === 'hotspot' && b.sprite.visible && !b.occluded && !b.decluttered)
     if (!hotspots.length) return
     const cam = this._getCamera()
     if (!cam) return
@@ -210,6 +389,227 @@ export class BillboardManager {
     if (closest) this.opts.onHotspotTap(closest.name)
   }
 
+  // ── Occlusion ─────────────────────────────────────────────────────────────
+
+  /**
+   * Casts a ray from the camera to the middle of the next label, at most once
+   * per OCCLUSION_INTERVAL_MS. A terrain hit closer than the label (less a
+   * margin, so the slope the anchor stands on doesn't count) votes for
+   * occluded.
+   */
+  private _testOcclusion(now: number): void {
+    const { billboards, _raycaster, _camPos, _up, _v3 } = this
+    if (now - this._lastOcclusion < OCCLUSION_INTERVAL_MS) return
+    const cam = this._getCamera()
+    if (!cam || !billboards.length || !this._terrainMeshes.length) return
+    this._lastOcclusion = now
+    cam.getWorldPosition(_camPos)
+    _up.set(0, 1, 0).transformDirection(cam.matrixWorld)
+
+    this._nextOcclusion %= billboards.length
+    const b = billboards[this._nextOcclusion++]
+    const h = b.sprite.scale.y
+    _v3.copy(b.sprite.position).addScaledVector(_up, h * 0.5).sub(_camPos)
+    const dist = _v3.length()
+    _raycaster.set(_camPos, _v3.divideScalar(dist))
+    _raycaster.far = Math.max(0, dist - h * OCCLUSION_MARGIN)
+    const hidden = _raycaster.intersectObjects(this._terrainMeshes, false).length > 0
+
+    if (hidden === b.occluded) { b.votes = 0; return }
+    if (++b.votes >= OCCLUSION_VOTES) {
+      b.occluded = hidden
+      b.votes    = 0
+    }
+  }
+
+  // ── Declutter ─────────────────────────────────────────────────────────────
+
+  /**
+   * Projects every showable label to an NDC rectangle and lets layoutLabels()
+   * decide which ones stay. Labels behind the camera or the terrain take no
+   * part (and keep their state). Sprites must still sit on their anchors.
+   */
+  private _layout(): void {
+    const { billboards, _camPos, _up, _v3 } = this
+    const cam = this._getCamera()
+    if (!cam || !billboards.length) return
+    cam.getWorldPosition(_camPos)
+    _up.set(0, 1, 0).transformDirection(cam.matrixWorld)
+    const aspect = window.innerHeight / window.innerWidth
+
+    const active: Billboard[] = []
+    const items:  LabelItem[] = []
+    const ndcH:   number[]    = []
+    for (const b of billboards) {
+      const tip = _v3.copy(b.sprite.position).project(cam)
+      if (b.occluded || b.lodAlpha < 0.01 || tip.z > 1) continue
+      const tx = tip.x, ty = tip.y
+      const top = _v3.copy(b.sprite.position).addScaledVector(_up, b.sprite.scale.y).project(cam)
+      const h   = Math.abs(top.y - ty)
+      const w   = h * (b.sprite.scale.x / b.sprite.scale.y) * aspect
+      active.push(b)
+      ndcH.push(h)
+      items.push({
+        rect:      { x0: tx - w / 2, y0: Math.min(ty, top.y), x1: tx + w / 2, y1: Math.min(ty, top.y) + h },
+        priority:  DECLUTTER_PRIORITY[b.type],
+        depth:     b.sprite.position.distanceTo(_camPos),
+        wasHidden: b.decluttered,
+      })
+    }
+
+    const padding = (DECLUTTER_PADDING_PX / window.innerHeight) * 2
+    layoutLabels(items, this.opts.declutter, padding).forEach((place, i) => {
+      const b = active[i]
+      b.decluttered = place.hidden
+      // NDC lift → world units along camera-up at the label's distance.
+      if (!place.hidden) b.liftTarget = ndcH[i] > 0 ? place.lift / ndcH[i] * b.sprite.scale.y : 0
+    })
+  }
+
+  /** Eases stacked labels towards their lift and moves them off the anchor. */
+  private _applyLift(dt: number): void {
+    const k = dt > 0 ? Math.min(1, dt / STACK_EASE_MS) : 1
+    for (const b of this.billboards) {
+      b.lift += (b.liftTarget - b.lift) * k
+      if (b.lift > 1e-6) b.sprite.position.addScaledVector(this._up, b.lift)
+    }
+  }
+
+  /** Eases each billboard's opacity towards its target visibility. */
+  private _applyOpacity(dt: number): void {
+    const step = dt / OCCLUSION_FADE_MS
+    for (const b of this.billboards) {
+      const target = b.occluded || b.decluttered ? 0 : 1
+      b.opacity = target > b.opacity
+        ? Math.min(target, b.opacity + step)
+        : Math.max(target, b.opacity - step)
+      const alpha = b.opacity * b.lodAlpha
+      b.sprite.material.opacity = alpha
+      b.sprite.visible = alpha > 0.01
+
+      const dotTarget = b.occluded ? 0 : 1
+      b.dotOpacity = dotTarget > b.dotOpacity
+        ? Math.min(dotTarget, b.dotOpacity + step)
+        : Math.max(dotTarget, b.dotOpacity - step)
+    }
+  }
+
+  // ── Level of detail ───────────────────────────────────────────────────────
+
+  /**
+   * Applies the LOD rules for a label `px` CSS px tall at its natural `size`
+   * (world units) and returns the size to draw it at.
+   */
+  private _applyLod(b: Billboard, size: number, px: number): number {
+    const { mountainFadePx: [full, gone], hotspotMinPx, compactBelowPx } = this._lod
+
+    if (b.type === 'mountain') {
+      b.lodAlpha = px >= full ? 1 : px <= gone ? 0 : (px - gone) / (full - gone)
+    }
+
+    if (compactBelowPx > 0) {
+      const compact = px < compactBelowPx * (b.compact ? COMPACT_HYSTERESIS : 1)
+      if (compact !== b.compact) {
+        b.compact = compact
+        b.sprite.material.map = compact ? this._getCompactTexture(b.type) : b.icon
+        b.sprite.material.needsUpdate = true
+      }
+    }
+
+    if (b.type === 'hotspot' && px > 0 && px < hotspotMinPx) return size * hotspotMinPx / px
+    return size
+  }
+
+  /** Round badge in the type's colour with a white glyph (360° ring / peak / dot). */
+  private _getCompactTexture(type: PoiType): any {
+    const cached = this._compactTextures[type]
+    if (cached) return cached
+    const n      = COMPACT_TEX_PX
+    const canvas = document.createElement('canvas')
+    canvas.width = canvas.height = n
+    const ctx = canvas.getContext('2d')!
+    ctx.beginPath()
+    ctx.arc(n / 2, n / 2, n / 2 - 3, 0, Math.PI * 2)
+    ctx.fillStyle   = COMPACT_COLORS[type]
+    ctx.strokeStyle = '#fff'
+    ctx.lineWidth   = 4
+    ctx.fill()
+    ctx.stroke()
+
+    ctx.fillStyle   = '#fff'
+    ctx.strokeStyle = '#fff'
+    ctx.beginPath()
+    if (type === 'hotspot') {
+      ctx.lineWidth = 5
+      ctx.ellipse(n / 2, n / 2, n * 0.24, n * 0.12, 0, 0, Math.PI * 2)
+      ctx.stroke()
+    } else if (type === 'mountain') {
+      ctx.moveTo(n * 0.24, n * 0.68)
+      ctx.lineTo(n * 0.5,  n * 0.28)
+      ctx.lineTo(n * 0.76, n * 0.68)
+      ctx.closePath()
+      ctx.fill()
+    } else {
+      ctx.arc(n / 2, n / 2, n * 0.12, 0, Math.PI * 2)
+      ctx.fill()
+    }
+
+    const tex = new this.THREE.CanvasTexture(canvas)
+    tex.colorSpace = this.THREE.SRGBColorSpace ?? this.THREE.sRGBEncoding
+    this._compactTextures[type] = tex
+    return tex
+  }
+
+  // ── Leader lines ──────────────────────────────────────────────────────────
+
+  /**
+   * Joins each label's bottom edge to its ground anchor. The line only shows
+   * while the label sits off its anchor (LeaderStyle.length or a 'stack'
+   * lift) and fades with the label. The dot stays while the label is
+   * decluttered, so a hidden POI is still marked; it fades only when the
+   * anchor is occluded or too small to draw.
+   */
+  private _updateLeaders(): void {
+    for (const b of this.billboards) {
+      const style = this._leaderStyles[b.type]
+      if (!style) continue
+      const { sprite, ground, leader, dot } = b
+      const pos = leader.geometry.attributes.position
+      pos.setXYZ(0, ground.x, ground.y, ground.z)
+      pos.setXYZ(1, sprite.position.x, sprite.position.y, sprite.position.z)
+      pos.needsUpdate = true
+      leader.visible = sprite.visible && sprite.position.distanceTo(ground) > sprite.scale.y * 0.05
+      leader.material.opacity = style.opacity * sprite.material.opacity
+
+      if (dot) {
+        dot.position.copy(ground)
+        dot.scale.setScalar(sprite.scale.y * style.dotSize)
+        const alpha = b.dotOpacity * b.lodAlpha
+        dot.visible = alpha > 0.01
+        dot.material.opacity = style.opacity * alpha
+      }
+    }
+  }
+
+  /** Soft white disc shared by every ground dot (tinted per type). */
+  private _getDotTexture(): any {
+    if (this._dotTexture) return this._dotTexture
+    const canvas = document.createElement('canvas')
+    canvas.width = canvas.height = DOT_TEX_PX
+    const ctx = canvas.getContext('2d')!
+    const r   = DOT_TEX_PX / 2
+    ctx.beginPath()
+    ctx.arc(r, r, r - 3, 0, Math.PI * 2)
+    ctx.fillStyle   = '#fff'
+    ctx.strokeStyle = 'rgba(0,0,0,0.45)'
+    ctx.lineWidth   = 3
+    ctx.fill()
+    ctx.stroke()
+    this._dotTexture = new this.THREE.CanvasTexture(canvas)
+    this._dotTexture.colorSpace = this.THREE.SRGBColorSpace ?? this.THREE.sRGBEncoding
+    return this._dotTexture
+  }
+
   /**
    * Returns the live AR camera for NDC projection.
    *
@@ -240,6 +640,41 @@ export class BillboardManager {
     return null
   }
 
+  private _makeBillboard(sprite: any, anchor: any, name: string, type: PoiType, scene: any): Billboard {
+    const { THREE } = this
+    const style = this._leaderStyles[type]
+    let leader: any = null
+    let dot:    any = null
+    if (style) {
+      // Drawn just under the labels; one-pixel lines are all WebGL guarantees.
+      const geo = new THREE.BufferGeometry()
+      geo.setAttribute('position', new THREE.Float32BufferAttribute(new Float32Array(6), 3))
+      leader = new THREE.Line(geo, new THREE.LineBasicMaterial({
+        color: style.color, transparent: true, depthTest: false, depthWrite: false,
+      }))
+      leader.frustumCulled = false
+      leader.renderOrder   = 998
+      leader.visible       = false
+      scene.add(leader)
+      if (style.dot) {
+        dot = new THREE.Sprite(new THREE.SpriteMaterial({
+          map: this._getDotTexture(), color: style.color,
+          transparent: true, depthTest: false, depthWrite: false,
+        }))
+        dot.renderOrder = 998
+        dot.visible     = false
+        scene.add(dot)
+      }
+    }
+    return {
+      sprite, anchor, name, type,
+      occluded: false, votes: 0, opacity: 1, dotOpacity: 1,
+      decluttered: false, lift: 0, liftTarget: 0,
+      ground: new THREE.Vector3(), leader, dot,
+      icon: sprite.material.map, compact: false, lodAlpha: 1,
+    }
+  }
+
   private _makeSprite(texture: any): any {
     const { THREE } = this
     texture.colorSpace = THREE.SRGBColorSpace ?? THREE.sRGBEncoding
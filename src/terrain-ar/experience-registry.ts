@@ -12,6 +12,10 @@ export class ExperienceRegistry {
     if (i !== -1) this.idx = i
   }
 
+  has(name: string): boolean {
+    return this.names.includes(name)
+  }
+
   getCurrentName(): string | null {
     return this.names[this.idx] ?? null
   }
@@ -20,6 +24,12 @@ export class ExperienceRegistry {
     return this.names.length
   }
 
+  peek(steps: number): string | null {
+    const n = this.names.length
+    if (!n) return null
+    return this.names[((this.idx + steps) % n + n) % n]
+  }
+
   navigatePrev(): string | null {
     if (!this.names.length) return null
     this.idx = (this.idx - 1 + this.names.length) % this.names.length
@@ -0,0 +1,84 @@
+/**
+ * Screen-space decluttering for BillboardManager labels
+ *
+ * Pure layout: takes one NDC rectangle per label and decides, in priority
+ * order, which labels keep their place. A label overlapping one already
+ * placed is hidden ('hide') or lifted straight up until it sits clear of the
+ * labels below it ('stack'), up to a few label heights; past that it is
+ * hidden too.
+ *
+ * A label that was hidden last frame must clear its neighbours by `padding`
+ * before it comes back, so labels that barely touch don't flicker.
+ */
+
+export type DeclutterMode = 'hide' | 'stack' | 'off'
+
+/** Axis-aligned rectangle in NDC (x right, y up). */
+export interface LabelRect {
+  x0: number
+  y0: number
+  x1: number
+  y1: number
+}
+
+export interface LabelItem {
+  rect:      LabelRect
+  /** Lower wins. */
+  priority:  number
+  /** Distance to the camera; breaks priority ties, nearer wins. */
+  depth:     number
+  wasHidden: boolean
+}
+
+export interface LabelPlacement {
+  hidden: boolean
+  /** Upward offset in NDC, 'stack' mode only. */
+  lift:   number
+}
+
+const MAX_STACK = 3   // label heights a label may be lifted in 'stack' mode
+
+export function layoutLabels(items: LabelItem[], mode: DeclutterMode, padding: number): LabelPlacement[] {
+  const out: LabelPlacement[] = items.map(() => ({ hidden: false, lift: 0 }))
+  if (mode === 'off') return out
+
+  const order = items.map((_, i) => i).sort((a, b) =>
+    items[a].priority - items[b].priority || items[a].depth - items[b].depth)
+  const placed: LabelRect[] = []
+
+  for (const i of order) {
+    const { rect, wasHidden } = items[i]
+    const pad = wasHidden ? padding : 0
+    let lift    = 0
+    let blocker = findOverlap(placed, rect, lift, pad)
+
+    if (blocker && mode === 'stack') {
+      const maxLift = (rect.y1 - rect.y0) * MAX_STACK
+      while (blocker && lift <= maxLift) {
+        lift    = blocker.y1 + pad - rect.y0
+        blocker = findOverlap(placed, rect, lift, pad)
+      }
+      if (lift > maxLift) blocker = rect   // lifted too far to still read as this POI
+    }
+
+    if (blocker) {
+      out[i].hidden = true
+      continue
+    }
+    out[i].lift = lift
+    placed.push({ x0: rect.x0, y0: rect.y0 + lift, x1: rect.x1, y1: rect.y1 + lift })
+  }
+  return out
+}
+
+function findOverlap(placed: LabelRect[], r: LabelRect, lift: number, pad: number): LabelRect | null {
+  const y0 = r.y0 + lift - pad
+  const y1 = r.y1 + lift + pad
+  let hit: LabelRect | null = null
+  for (const p of placed) {
+    if (r.x0 - pad >= p.x1 || r.x1 + pad <= p.x0 || y0 >= p.y1 || y1 <= p.y0) continue
+    // The highest blocker, so one lift step clears every overlap at this level.
+    if (!hit || p.y1 > hit.y1) hit = p
+  }
+  return hit
+}
@@ -0,0 +1,371 @@
+/**
+ * manifest.json — types, loader and validation for Viewer360
+ *
+ * validateManifest() never throws: it returns the entries that can be shown
+ * plus a flat list of issues, so the same report can feed the viewer's debug
+ * overlay, the console, and scripts/check-manifest.ts (DOM-free on purpose).
+ *
+ *   error   — the manifest is wrong; the entry (or the broken field) is
+ *             dropped if the viewer could not show it
+ *   warning — probably a mistake, but the viewer copes
+ *
+ * See viewer-360.ts for the field reference and the sphere coordinates.
+ */
+
+import type {TileSpec} from './tiled-panorama'
+
+export type Projection = 'equirect' | 'cubemap'
+
+/**
+ * Tappable arrow on the sphere leading to another image of the same hotspot
+ * (`image`) or to another hotspot (`hotspot`, optionally at `image`).
+ */
+export interface PanoLink {
+  yaw:      number
+  pitch?:   number
+  image?:   number
+  hotspot?: string
+  label?:   string
+}
+
+/**
+ * Info callout pinned to the sphere. `image` is a path relative to the
+ * hotspot folder, e.g. "notes/fault-line.jpg".
+ */
+export interface PanoAnnotation {
+  yaw:    number
+  pitch?: number
+  title:  string
+  text?:  string
+  image?: string
+}
+
+/**
+ * Audio file relative to the hotspot folder, e.g. "audio/intro.mp3", or one
+ * file per language code: { "it": "audio/intro-it.mp3", "en": "…" }.
+ */
+export type AudioSource = string | Record<string, string>
+
+export interface HotspotEntry {
+  folder: string
+  /** Source format of every image in this hotspot. Defaults to 'equirect'. */
+  projection?: Projection
+  images: string[]
+  labels?: string[]
+  /** One list of links per image, parallel to `images`. */
+  links?:  PanoLink[][]
+  /** One list of info callouts per image, parallel to `images`. */
+  annotations?: PanoAnnotation[][]
+  /** Tile pyramid per image (null = plain JPG), parallel to `images`. Equirect only. */
+  tiles?: (TileSpec | null)[]
+  /** Yaw / pitch each image opens on, parallel to `images`. Default 0. */
+  initialYaw?:   (number | null)[]
+  initialPitch?: (number | null)[]
+  /**
+   * Yaw of true north in each image, parallel to `images`. When set and the
+   * device reports a compass heading, gyro mode is aligned to it.
+   */
+  northOffset?: (number | null)[]
+  /** Narration per image (null = none), parallel to `images`. */
+  audio?: (AudioSource | null)[]
+  /** Looping background track for the whole hotspot. */
+  ambient?: AudioSource
+}
+export type Manifest = Record<string, HotspotEntry>
+
+export interface ManifestIssue {
+  level:   'error' | 'warning'
+  /** Hotspot key, or null for problems with the file as a whole. */
+  hotspot: string | null
+  /** Dotted path inside the entry, e.g. "labels" or "links[2][0].yaw". */
+  path:    string
+  message: string
+}
+
+export interface ManifestReport {
+  manifest: Manifest
+  issues:   ManifestIssue[]
+}
+
+// ── Schema ────────────────────────────────────────────────────────────────────
+
+const ENTRY_KEYS = new Set([
+  'folder', 'projection', 'images', 'labels', 'links', 'annotations', 'tiles',
+  'initialYaw', 'initialPitch', 'northOffset', 'audio', 'ambient',
+])
+const LINK_KEYS       = new Set(['yaw', 'pitch', 'image', 'hotspot', 'label'])
+const ANNOTATION_KEYS = new Set(['yaw', 'pitch', 'title', 'text', 'image'])
+const PROJECTIONS     = new Set<Projection>(['equirect', 'cubemap'])
+
+// Fields holding one value per image.
+const PARALLEL_KEYS = [
+  'labels', 'links', 'annotations', 'tiles', 'initialYaw', 'initialPitch', 'northOffset',
+  'audio',
+] as const
+
+// Stems are file names without extension; videos keep theirs.
+const IMAGE_EXT_RE = /\.(jpe?g|png)$/i
+
+/** Image entries with one of these extensions are equirectangular videos. */
+export const VIDEO_EXT_RE = /\.(mp4|webm)$/i
+
+// ── Loader ────────────────────────────────────────────────────────────────────
+
+/** Fetches and validates the manifest. Network and JSON errors become issues. */
+export async function loadManifest(url: string): Promise<ManifestReport> {
+  let raw: unknown
+  try {
+    const r = await fetch(url)
+    if (!r.ok) throw new Error(`HTTP ${r.status}`)
+    raw = await r.json()
+  } catch (err) {
+    return {
+      manifest: {},
+      issues: [{
+        level: 'error', hotspot: null, path: '',
+        message: `could not load ${url}: ${(err as Error).message}`,
+      }],
+    }
+  }
+  return validateManifest(raw)
+}
+
+export function formatIssue(issue: ManifestIssue): string {
+  const where = [issue.hotspot, issue.path].filter(Boolean).join('.')
+  return `${issue.level.toUpperCase()} ${where ? where + ': ' : ''}${issue.message}`
+}
+
+// ── Validation ────────────────────────────────────────────────────────────────
+
+export function validateManifest(raw: unknown): ManifestReport {
+  const manifest: Manifest = {}
+  const issues:   ManifestIssue[] = []
+
+  if (!isObject(raw)) {
+    issues.push({ level: 'error', hotspot: null, path: '', message: 'manifest must be a JSON object' })
+    return { manifest, issues }
+  }
+
+  for (const [name, value] of Object.entries(raw)) {
+    const entry = validateEntry(value, issue => issues.push({ hotspot: name, ...issue }))
+    if (entry) manifest[name] = entry
+  }
+
+  // Cross-entry: hotspot links must point at hotspots that can be shown.
+  for (const [name, entry] of Object.entries(manifest)) {
+    entry.links?.forEach((list, i) => list.forEach((link, j) => {
+      if (link.hotspot === undefined) return
+      const target = manifest[link.hotspot]
+      if (!target) {
+        issues.push({ level: 'error', hotspot: name, path: `links[${i}][${j}].hotspot`,
+          message: `unknown hotspot "${link.hotspot}"` })
+      } else if (link.image !== undefined && link.image >= target.images.length) {
+        issues.push({ level: 'error', hotspot: name, path: `links[${i}][${j}].image`,
+          message: `"${link.hotspot}" has no image ${link.image}` })
+      }
+    }))
+  }
+
+  return { manifest, issues }
+}
+
+type Report = (issue: Omit<ManifestIssue, 'hotspot'>) => void
+
+function validateEntry(value: unknown, report: Report): HotspotEntry | null {
+  const error   = (path: string, message: string) => report({ level: 'error',   path, message })
+  const warning = (path: string, message: string) => report({ level: 'warning', path, message })
+
+  if (!isObject(value)) {
+    error('', 'entry must be an object — hotspot skipped')
+    return null
+  }
+  for (const key of Object.keys(value)) {
+    if (!ENTRY_KEYS.has(key)) warning(key, 'unknown key')
+  }
+
+  // ── images ──
+  if (!Array.isArray(value.images)) {
+    error('images', 'missing or not an array — hotspot skipped')
+    return null
+  }
+  const images: string[] = []
+  const seen = new Set<string>()
+  value.images.forEach((stem: unknown, i: number) => {
+    const path = `images[${i}]`
+    if (typeof stem !== 'string' || !stem.trim()) { error(path, 'must be a non-empty string'); return }
+    if (stem !== stem.trim())                     warning(path, 'leading or trailing whitespace')
+    if (/[\\/]|\.\./.test(stem))                  error(path, `"${stem}" must be a file name, not a path`)
+    if (IMAGE_EXT_RE.test(stem))                  error(path, `"${stem}" must not include the image extension`)
+    if (seen.has(stem))                           warning(path, `"${stem}" is listed twice`)
+    seen.add(stem)
+    images.push(stem)
+  })
+  if (images.length !== value.images.length) {
+    error('images', 'invalid entries — hotspot skipped')
+    return null
+  }
+  if (!images.length) warning('images', 'no images — tapping this hotspot does nothing')
+
+  // ── folder ──
+  const folder = value.folder
+  if (typeof folder !== 'string' || (!folder.trim() && images.length)) {
+    error('folder', 'missing or empty — hotspot skipped')
+    return null
+  }
+  if (/[\\/]|\.\./.test(folder)) error('folder', 'must be a single folder name')
+
+  // ── projection ──
+  let projection: Projection | undefined
+  if (value.projection !== undefined) {
+    if (PROJECTIONS.has(value.projection)) projection = value.projection
+    else error('projection', `must be "equirect" or "cubemap", got ${JSON.stringify(value.projection)}`)
+  }
+
+  const entry: HotspotEntry = { folder, images }
+  if (projection) entry.projection = projection
+
+  // ── parallel arrays ──
+  // Only arrays with exactly one value per image are used; the viewer indexes
+  // them by image.
+  const parallel = new Set<string>()
+  for (const key of PARALLEL_KEYS) {
+    const list = value[key]
+    if (list === undefined) continue
+    if (!Array.isArray(list)) { error(key, 'must be an array (one value per image) — ignored'); continue }
+    if (list.length !== images.length) {
+      error(key, `has ${list.length} entries for ${images.length} images — ignored`)
+      continue
+    }
+    parallel.add(key)
+  }
+
+  if (parallel.has('labels')) {
+    const labels = value.labels.map((l: unknown, i: number) => {
+      if (typeof l === 'string') return l
+      error(`labels[${i}]`, 'must be a string')
+      return images[i] ?? ''
+    })
+    entry.labels = labels
+  }
+
+  if (parallel.has('links')) {
+    entry.links = value.links.map((list: unknown, i: number) =>
+      validateList(list, `links[${i}]`, LINK_KEYS, report, (item, path) => {
+        if (!isNumber(item.yaw)) { error(`${path}.yaw`, 'must be a number'); return null }
+        if (item.pitch !== undefined && !isNumber(item.pitch)) { error(`${path}.pitch`, 'must be a number'); return null }
+        if (item.label !== undefined && typeof item.label !== 'string') { error(`${path}.label`, 'must be a string'); return null }
+        if (item.hotspot !== undefined && typeof item.hotspot !== 'string') {
+          error(`${path}.hotspot`, 'must be a string'); return null
+        }
+        if (item.image !== undefined) {
+          if (!Number.isInteger(item.image) || item.image < 0) { error(`${path}.image`, 'must be an image index'); return null }
+          if (item.hotspot === undefined && item.image >= images.length) {
+            error(`${path}.image`, `no image ${item.image} in this hotspot`); return null
+          }
+        }
+        if (item.image === undefined && item.hotspot === undefined) {
+          error(path, 'needs "image" or "hotspot"'); return null
+        }
+        return item as PanoLink
+      }))
+  }
+
+  if (parallel.has('annotations')) {
+    entry.annotations = value.annotations.map((list: unknown, i: number) =>
+      validateList(list, `annotations[${i}]`, ANNOTATION_KEYS, report, (item, path) => {
+        if (!isNumber(item.yaw)) { error(`${path}.yaw`, 'must be a number'); return null }
+        if (typeof item.title !== 'string' || !item.title) { error(`${path}.title`, 'must be a non-empty string'); return null }
+        if (item.pitch !== undefined && !isNumber(item.pitch)) { error(`${path}.pitch`, 'must be a number'); return null }
+        if (item.text  !== undefined && typeof item.text  !== 'string') { error(`${path}.text`,  'must be a string'); return null }
+        if (item.image !== undefined && typeof item.image !== 'string') { error(`${path}.image`, 'must be a string'); return null }
+        return item as PanoAnnotation
+      }))
+  }
+
+  if (parallel.has('tiles')) {
+    if (projection === 'cubemap') warning('tiles', 'ignored for cubemap hotspots')
+    entry.tiles = value.tiles.map((spec: unknown, i: number) => {
+      const path = `tiles[${i}]`
+      if (spec === null) return null
+      if (VIDEO_EXT_RE.test(images[i] ?? '')) warning(path, 'ignored for videos')
+      if (!isObject(spec) || !isNumber(spec.tileSize) || spec.tileSize <= 0 ||
+          !Array.isArray(spec.levels) || !spec.levels.length ||
+          !spec.levels.every((l: any) => isObject(l) && Number.isInteger(l.cols) && Number.isInteger(l.rows) && l.cols > 0 && l.rows > 0)) {
+        error(path, 'must be null or { tileSize, levels: [{ cols, rows }, …] } — image shown untiled')
+        return null
+      }
+      return spec as unknown as TileSpec
+    })
+  }
+
+  for (const key of ['initialYaw', 'initialPitch', 'northOffset'] as const) {
+    if (!parallel.has(key)) continue
+    entry[key] = value[key].map((n: unknown, i: number): number | null => {
+      if (isNumber(n)) return n
+      if (n === null)  return null
+      error(`${key}[${i}]`, 'must be a number or null')
+      return null
+    })
+  }
+
+  if (parallel.has('audio')) {
+    entry.audio = value.audio.map((src: unknown, i: number) =>
+      src === null ? null : validateAudio(src, `audio[${i}]`, report))
+  }
+  if (value.ambient !== undefined) {
+    const ambient = validateAudio(value.ambient, 'ambient', report)
+    if (ambient) entry.ambient = ambient
+  }
+
+  return entry
+}
+
+/** A path string or a { lang: path } map; reports and returns null otherwise. */
+function validateAudio(src: unknown, path: string, report: Report): AudioSource | null {
+  const badPath = (p: string) => !p.trim() || /\\|\.\./.test(p)
+  if (typeof src === 'string') {
+    if (!badPath(src)) return src
+  } else if (isObject(src) && Object.keys(src).length) {
+    const bad = Object.entries(src).filter(([, p]) => typeof p !== 'string' || badPath(p))
+    if (!bad.length) return src as Record<string, string>
+    for (const [lang] of bad) {
+      report({ level: 'error', path: `${path}.${lang}`, message: 'must be a path inside the hotspot folder' })
+    }
+    return null
+  }
+  report({ level: 'error', path, message: 'must be a path inside the hotspot folder or a { lang: path } map — ignored' })
+  return null
+}
+
+/** Validates one per-image list of objects (links / annotations). */
+function validateList<T>(
+  list:    unknown,
+  path:    string,
+  keys:    Set<string>,
+  report:  Report,
+  check:   (item: Record<string, any>, path: string) => T | null,
+): T[] {
+  if (!Array.isArray(list)) {
+    report({ level: 'error', path, message: 'must be an array — ignored' })
+    return []
+  }
+  const out: T[] = []
+  list.forEach((item, j) => {
+    const itemPath = `${path}[${j}]`
+    if (!isObject(item)) { report({ level: 'error', path: itemPath, message: 'must be an object' }); return }
+    for (const key of Object.keys(item)) {
+      if (!keys.has(key)) report({ level: 'warning', path: `${itemPath}.${key}`, message: 'unknown key' })
+    }
+    const ok = check(item, itemPath)
+    if (ok) out.push(ok)
+  })
+  return out
+}
+
+function isObject(v: unknown): v is Record<string, any> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v)
+}
+
+function isNumber(v: unknown): v is number {
+  return typeof v === 'number' && Number.isFinite(v)
+}
@@ -0,0 +1,299 @@
+/**
+ * MiniMap — top-down terrain inset for Viewer360
+ *
+ * Rasterises the terrain mesh once into a small shaded elevation map (highest
+ * vertex per cell, coloured by height, lit from the north-west), then draws
+ * the POIs, the current hotspot and the camera's viewing cone on top.
+ *
+ * Without a north reference the cone still turns with the camera, relative to
+ * the image's opening view (drawn pointing up), but is drawn grey and dashed
+ * to show that its direction on the map is only nominal.
+ *
+ * Everything is computed in terrain-local space, so the map does not depend
+ * on where or how the model was placed in AR. North is assumed to be the
+ * model's −Z axis (Blender +Y exported to glTF), drawn at the top.
+ *
+ * Usage:
+ *   const map = new MiniMap(THREE)
+ *   map.setSource(terrainObject, boards.getAnchors())   // cheap, after init
+ *   map.mount(container)                                 // builds on first use
+ *   map.setLocation('SETTIMANA')
+ *   map.setView(headingDeg, hFovDeg, referenced)         // per frame
+ *   map.unmount()
+ */
+
+import type {PoiAnchor} from './billboard-manager'
+
+const MAP_PX = 220   // canvas backing size (shown at 110 CSS px → 2× sharp)
+const GRID   = 110   // elevation cells per side
+const FILL_PASSES = 4
+
+const RAMP: Array<[number, [number, number, number]]> = [
+  [0.0, [111, 143,  90]],
+  [0.5, [160, 138, 102]],
+  [0.8, [190, 182, 170]],
+  [1.0, [242, 242, 240]],
+]
+
+interface MapPoint {
+  name: string
+  type: PoiAnchor['type']
+  u:    number   // 0..1 west → east
+  v:    number   // 0..1 north → south
+}
+
+export class MiniMap {
+  private source: { terrain: any; anchors: PoiAnchor[] } | null = null
+  private base:   HTMLCanvasElement | null = null
+  private points: MapPoint[] = []
+  private canvas: HTMLCanvasElement | null = null
+  private ctx:    CanvasRenderingContext2D | null = null
+
+  private location = ''
+  private heading: number | null = null
+  private hFov     = 0
+  private referenced = true
+
+  constructor(private readonly THREE: any) {}
+
+  // ── Public API ────────────────────────────────────────────────────────────
+
+  /** Terrain + anchors to draw. Invalidates any map built from a previous source. */
+  setSource(terrain: any, anchors: PoiAnchor[]): void {
+    if (this.source?.terrain === terrain && this.base) {
+      this.source = {terrain, anchors}
+      return
+    }
+    this.source = {terrain, anchors}
+    this.base   = null
+  }
+
+  get available(): boolean {
+    return !!this.source
+  }
+
+  mount(parent: HTMLElement): void {
+    if (!this.source) return
+    if (!this.base) this._build()
+    this.canvas = document.createElement('canvas')
+    this.canvas.width  = MAP_PX
+    this.canvas.height = MAP_PX
+    this.canvas.className = 'v360-minimap-canvas'
+    this.ctx = this.canvas.getContext('2d')
+    parent.appendChild(this.canvas)
+    this._draw()
+  }
+
+  unmount(): void {
+    this.canvas?.remove()
+    this.canvas = null
+    this.ctx    = null
+  }
+
+  setLocation(name: string): void {
+    if (name === this.location) return
+    this.location = name
+    this._draw()
+  }
+
+  /**
+   * @param heading    heading of the camera in degrees clockwise from map up,
+   *                   or null for no cone.
+   * @param hFov       horizontal field of view in degrees (cone width).
+   * @param referenced true when `heading` is a compass heading; false when it
+   *                   is only relative to the image's opening view.
+   */
+  setView(heading: number | null, hFov: number, referenced = true): void {
+    const same =
+      heading === this.heading ||
+      (heading !== null && this.heading !== null && Math.abs(heading - this.heading) < 0.5)
+    if (same && Math.abs(hFov - this.hFov) < 0.5 && referenced === this.referenced) return
+    this.heading    = heading
+    this.hFov       = hFov
+    this.referenced = referenced
+    this._draw()
+  }
+
+  // ── Build ─────────────────────────────────────────────────────────────────
+
+  private _build(): void {
+    const {THREE} = this
+    const {terrain, anchors} = this.source!
+
+    terrain.updateMatrixWorld(true)
+    const toLocal = new THREE.Matrix4().copy(terrain.matrixWorld).invert()
+    const m = new THREE.Matrix4()
+    const v = new THREE.Vector3()
+
+    const meshes: any[] = []
+    terrain.traverse((c: any) => {
+      if (c.isMesh && c.geometry?.attributes?.position) meshes.push(c)
+    })
+    const eachVertex = (fn: (v: any) => void) => {
+      for (const mesh of meshes) {
+        m.multiplyMatrices(toLocal, mesh.matrixWorld)
+        const pos = mesh.geometry.attributes.position
+        for (let i = 0; i < pos.count; i++) fn(v.fromBufferAttribute(pos, i).applyMatrix4(m))
+      }
+    }
+
+    let minX = Infinity, maxX = -Infinity
+    let minY = Infinity, maxY = -Infinity
+    let minZ = Infinity, maxZ = -Infinity
+    eachVertex(p => {
+      if (p.x < minX) minX = p.x; if (p.x > maxX) maxX = p.x
+      if (p.y < minY) minY = p.y; if (p.y > maxY) maxY = p.y
+      if (p.z < minZ) minZ = p.z; if (p.z > maxZ) maxZ = p.z
+    })
+    if (!isFinite(minX)) return
+
+    // Square extent centred on the model so the map keeps its proportions.
+    const size = Math.max(maxX - minX, maxZ - minZ) || 1
+    const x0   = (minX + maxX) / 2 - size / 2
+    const z0   = (minZ + maxZ) / 2 - size / 2
+    const toU  = (x: number) => (x - x0) / size
+    const toV  = (z: number) => (z - z0) / size
+
+    const heights = new Float32Array(GRID * GRID).fill(-Infinity)
+    eachVertex(p => {
+      const gx = Math.min(GRID - 1, Math.floor(toU(p.x) * GRID))
+      const gz = Math.min(GRID - 1, Math.floor(toV(p.z) * GRID))
+      const i  = gz * GRID + gx
+      if (p.y > heights[i]) heights[i] = p.y
+    })
+    this._fillHoles(heights)
+
+    this.base   = this._shade(heights, minY, maxY - minY || 1)
+    this.points = anchors.map(({name, type, anchor}) => {
+      anchor.getWorldPosition(v).applyMatrix4(toLocal)
+      return {name, type, u: toU(v.x), v: toV(v.z)}
+    })
+  }
+
+  /** Sparse meshes leave empty cells; grow neighbours into them. */
+  private _fillHoles(h: Float32Array): void {
+    for (let pass = 0; pass < FILL_PASSES; pass++) {
+      const src = h.slice()
+      for (let z = 0; z < GRID; z++) {
+        for (let x = 0; x < GRID; x++) {
+          const i = z * GRID + x
+          if (src[i] !== -Infinity) continue
+          let best = -Infinity
+          if (x > 0)        best = Math.max(best, src[i - 1])
+          if (x < GRID - 1) best = Math.max(best, src[i + 1])
+          if (z > 0)        best = Math.max(best, src[i - GRID])
+          if (z < GRID - 1) best = Math.max(best, src[i + GRID])
+          h[i] = best
+        }
+      }
+    }
+  }
+
+  private _shade(h: Float32Array, minY: number, range: number): HTMLCanvasElement {
+    const canvas = document.createElement('canvas')
+    canvas.width = canvas.height = GRID
+    const ctx = canvas.getContext('2d')!
+    const img = ctx.createImageData(GRID, GRID)
+    const at  = (x: number, z: number) => {
+      const c = h[Math.max(0, Math.min(GRID - 1, z)) * GRID + Math.max(0, Math.min(GRID - 1, x))]
+      return c === -Infinity ? minY : c
+    }
+
+    for (let z = 0; z < GRID; z++) {
+      for (let x = 0; x < GRID; x++) {
+        const i = z * GRID + x
+        if (h[i] === -Infinity) continue
+        const t = (h[i] - minY) / range
+        // Light from the north-west: brighter where the ground rises toward it.
+        const slope = ((at(x - 1, z) - at(x + 1, z)) + (at(x, z - 1) - at(x, z + 1))) / range
+        const light = Math.max(0.55, Math.min(1.25, 0.9 + slope * GRID * 0.08))
+        const [r, g, b] = this._ramp(t)
+        img.data[i * 4]     = Math.min(255, r * light)
+        img.data[i * 4 + 1] = Math.min(255, g * light)
+        img.data[i * 4 + 2] = Math.min(255, b * light)
+        img.data[i * 4 + 3] = 255
+      }
+    }
+    ctx.putImageData(img, 0, 0)
+    return canvas
+  }
+
+  private _ramp(t: number): [number, number, number] {
+    for (let i = 1; i < RAMP.length; i++) {
+      const [t1, c1] = RAMP[i]
+      if (t > t1) continue
+      const [t0, c0] = RAMP[i - 1]
+      const k = (t - t0) / (t1 - t0)
+      return [c0[0] + (c1[0] - c0[0]) * k, c0[1] + (c1[1] - c0[1]) * k, c0[2] + (c1[2] - c0[2]) * k]
+    }
+    return RAMP[RAMP.length - 1][1]
+  }
+
+  // ── Draw ──────────────────────────────────────────────────────────────────
+
+  private _draw(): void {
+    const {ctx} = this
+    if (!ctx) return
+    ctx.clearRect(0, 0, MAP_PX, MAP_PX)
+    if (this.base) {
+      ctx.imageSmoothingEnabled = true
+      ctx.drawImage(this.base, 0, 0, MAP_PX, MAP_PX)
+    }
+
+    for (const p of this.points) {
+      if (p.name === this.location && p.type === 'hotspot') continue
+      ctx.beginPath()
+      ctx.arc(p.u * MAP_PX, p.v * MAP_PX, p.type === 'hotspot' ? 3.5 : 2.5, 0, Math.PI * 2)
+      ctx.fillStyle = p.type === 'hotspot' ? 'rgba(255,255,255,0.9)' : 'rgba(26,42,58,0.55)'
+      ctx.fill()
+    }
+
+    const here = this.points.find(p => p.type === 'hotspot' && p.name === this.location)
+    if (here) {
+      const x = here.u * MAP_PX
+      const y = here.v * MAP_PX
+
+      if (this.heading !== null) {
+        // Canvas angles start at +x (east) and run clockwise; north is −90°.
+        const a    = (this.heading - 90) * Math.PI / 180
+        const half = Math.max(10, this.hFov / 2) * Math.PI / 180
+        const r    = MAP_PX * 0.32
+        const rgb  = this.referenced ? '74,184,216' : '255,255,255'
+        const grad = ctx.createRadialGradient(x, y, 0, x, y, r)
+        grad.addColorStop(0, `rgba(${rgb},0.75)`)
+        grad.addColorStop(1, `rgba(${rgb},0)`)
+        ctx.beginPath()
+        ctx.moveTo(x, y)
+        ctx.arc(x, y, r, a - half, a + half)
+        ctx.closePath()
+        ctx.fillStyle = grad
+        ctx.fill()
+        if (!this.referenced) {
+          ctx.setLineDash([5, 4])
+          ctx.lineWidth   = 1.5
+          ctx.strokeStyle = 'rgba(255,255,255,0.8)'
+          ctx.stroke()
+          ctx.setLineDash([])
+        }
+      }
+
+      ctx.beginPath()
+      ctx.arc(x, y, 7, 0, Math.PI * 2)
+      ctx.fillStyle = '#fff'
+      ctx.fill()
+      ctx.beginPath()
+      ctx.arc(x, y, 4.5, 0, Math.PI * 2)
+      ctx.fillStyle = '#4ab8d8'
+      ctx.fill()
+    }
+
+    ctx.font         = 'bold 18px "Helvetica Neue", Helvetica, Arial, sans-serif'
+    ctx.textAlign    = 'center'
+    ctx.textBaseline = 'top'
+    ctx.lineWidth    = 3
+    ctx.strokeStyle  = 'rgba(0,0,0,0.35)'
+    ctx.strokeText('N', MAP_PX / 2, 6)
+    ctx.fillStyle    = '#fff'
+    ctx.fillText('N', MAP_PX / 2, 6)
+  }
+}
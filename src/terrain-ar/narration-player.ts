@@ -0,0 +1,171 @@
+/**
+ * NarrationPlayer — per-image narration + hotspot ambient loop for Viewer360
+ *
+ * Owns two <audio> elements: the narration of the current image and an
+ * optional looping ambient track for the whole hotspot. Changing either
+ * fades the old track out before releasing it, so navigating never cuts a
+ * voice off mid-word. The ambient track keeps playing across images of the
+ * same hotspot as long as its URL does not change.
+ *
+ * Narration starts on its own (opts.autoplay) unless the user paused the
+ * previous one — that choice carries over to the next image. Browsers that
+ * block autoplay leave it paused; the next play() from a tap starts both.
+ *
+ * iOS ignores HTMLMediaElement.volume, so there the old track keeps playing
+ * at full volume for fadeMs and then stops abruptly.
+ *
+ * Usage:
+ *   const player = new NarrationPlayer({ onChange: () => syncUi() })
+ *   player.setAmbient(url | null)
+ *   player.setNarration(url | null)
+ *   player.toggle(); player.seek(0.5)
+ *   player.stop()
+ */
+
+import type {AudioSource} from './manifest'
+
+export interface NarrationPlayerOptions {
+  /** Start narration automatically when an image has one. Default true. */
+  autoplay?: boolean
+  /** Volume of the ambient loop, 0–1. Default 0.35. */
+  ambientVolume?: number
+  /** Fade-out duration when a track is replaced or stopped. Default 500 ms. */
+  fadeMs?: number
+  /** Called whenever playback state or progress changes. */
+  onChange?: () => void
+}
+
+export class NarrationPlayer {
+  private opts:       Required<NarrationPlayerOptions>
+  private narration:  HTMLAudioElement | null = null
+  private ambient:    HTMLAudioElement | null = null
+  private ambientUrl: string | null = null
+  private userPaused = false
+
+  constructor(opts: NarrationPlayerOptions = {}) {
+    this.opts = {
+      autoplay:      opts.autoplay      ?? true,
+      ambientVolume: opts.ambientVolume ?? 0.35,
+      fadeMs:        opts.fadeMs        ?? 500,
+      onChange:      opts.onChange      ?? (() => {}),
+    }
+  }
+
+  // ── Public API ────────────────────────────────────────────────────────────
+
+  get hasNarration(): boolean {
+    return !!this.narration
+  }
+
+  get playing(): boolean {
+    return !!this.narration && !this.narration.paused
+  }
+
+  /** Narration position, 0–1 (0 while the duration is unknown). */
+  get progress(): number {
+    const a = this.narration
+    return a && a.duration > 0 && Number.isFinite(a.duration) ? a.currentTime / a.duration : 0
+  }
+
+  /** Replaces the narration track; null fades out the current one. */
+  setNarration(url: string | null): void {
+    if (this.narration) this._fadeOut(this.narration)
+    this.narration = null
+    if (url) {
+      const a = this._createAudio(url, false)
+      for (const type of ['play', 'pause', 'ended', 'timeupdate', 'loadedmetadata']) {
+        a.addEventListener(type, () => { if (a === this.narration) this.opts.onChange() })
+      }
+      this.narration = a
+      if (this.opts.autoplay && !this.userPaused) void a.play().catch(() => this.opts.onChange())
+    }
+    this.opts.onChange()
+  }
+
+  /** Sets the ambient loop; the same URL keeps the current loop running. */
+  setAmbient(url: string | null): void {
+    if (url === this.ambientUrl) return
+    if (this.ambient) this._fadeOut(this.ambient)
+    this.ambient    = url ? this._createAudio(url, true) : null
+    this.ambientUrl = url
+    if (this.ambient) {
+      this.ambient.volume = this.opts.ambientVolume
+      void this.ambient.play().catch(() => {})
+    }
+  }
+
+  /** Play / pause the narration. Playing also (re)starts a blocked ambient loop. */
+  toggle(): void {
+    const a = this.narration
+    if (!a) return
+    if (a.paused) {
+      this.userPaused = false
+      if (a.ended) a.currentTime = 0
+      void a.play().catch(() => {})
+      if (this.ambient?.paused) void this.ambient.play().catch(() => {})
+    } else {
+      this.userPaused = true
+      a.pause()
+    }
+  }
+
+  /** Jumps to `frac` (0–1) of the narration. */
+  seek(frac: number): void {
+    const a = this.narration
+    if (!a || !(a.duration > 0) || !Number.isFinite(a.duration)) return
+    a.currentTime = Math.max(0, Math.min(1, frac)) * a.duration
+  }
+
+  /** Fades out and releases both tracks; the next session starts fresh. */
+  stop(): void {
+    this.setNarration(null)
+    this.setAmbient(null)
+    this.userPaused = false
+  }
+
+  // ── Private helpers ───────────────────────────────────────────────────────
+
+  private _createAudio(url: string, loop: boolean): HTMLAudioElement {
+    const a = new Audio()
+    a.loop    = loop
+    a.preload = 'auto'
+    a.src     = url
+    return a
+  }
+
+  /** Ramps the volume to 0, then releases the element. */
+  private _fadeOut(a: HTMLAudioElement): void {
+    const from = a.volume
+    const t0   = performance.now()
+    const step = () => {
+      const t = (performance.now() - t0) / this.opts.fadeMs
+      if (t >= 1 || a.paused) {
+        a.pause()
+        a.removeAttribute('src')
+        a.load()
+        return
+      }
+      a.volume = from * (1 - t)
+      requestAnimationFrame(step)
+    }
+    step()
+  }
+}
+
+/**
+ * Resolves a manifest audio source to one file: a plain path, or the entry of
+ * a language map matching the browser languages (by primary subtag), falling
+ * back to English, then to the first language listed.
+ */
+export function pickAudio(
+  source:    AudioSource | null | undefined,
+  languages: readonly string[] = navigator.languages ?? [navigator.language],
+): string | null {
+  if (!source) return null
+  if (typeof source === 'string') return source
+  for (const lang of languages) {
+    const hit = source[lang.toLowerCase().split('-')[0]]
+    if (hit) return hit
+  }
+  return source.en ?? Object.values(source)[0] ?? null
+}
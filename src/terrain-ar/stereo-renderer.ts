@@ -0,0 +1,160 @@
+/**
+ * StereoRenderer — side-by-side cardboard output for Viewer360
+ *
+ * Renders the scene once per eye into an off-screen target, then draws both
+ * targets onto the two halves of the screen through a barrel-distortion
+ * shader that cancels the pincushion distortion of cardboard lenses.
+ *
+ * Each eye camera copies the main camera's position and orientation every
+ * frame, so whatever drives that camera (the gyro pipeline, drag offsets)
+ * drives the headset view too. Panoramas carry no depth, so the eye offset
+ * only adds parallax to geometry close to the camera.
+ *
+ * Usage:
+ *   const stereo = new StereoRenderer(THREE, renderer)
+ *   stereo.render(scene, camera)   // instead of renderer.render()
+ *   stereo.dispose()
+ */
+
+export interface StereoOptions {
+  /** Distance between the eye cameras, in scene units. Default 0.064. */
+  eyeSeparation?: number
+  /** Vertical FOV of each eye in degrees. Default 90. */
+  fov?: number
+  /** Radial distortion coefficients (r² and r⁴ terms). Defaults 0.34 / 0.55. */
+  k1?: number
+  k2?: number
+}
+
+const VERTEX_SHADER = /* glsl */ `
+  varying vec2 vUv;
+  void main() {
+    vUv = uv;
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+  }
+`
+
+// Eye targets hold linear colour; encode to sRGB here since a ShaderMaterial
+// gets no output colour-space conversion from three.
+const FRAGMENT_SHADER = /* glsl */ `
+  uniform sampler2D map;
+  uniform float k1;
+  uniform float k2;
+  uniform float aspect;
+  varying vec2 vUv;
+
+  vec3 toSRGB(vec3 c) {
+    return mix(c * 12.92, 1.055 * pow(c, vec3(1.0 / 2.4)) - 0.055, step(0.0031308, c));
+  }
+
+  void main() {
+    vec2  p  = (vUv * 2.0 - 1.0) * vec2(aspect, 1.0);
+    float r2 = dot(p, p);
+    // Normalised so the top / bottom edge centres stay put.
+    vec2  q  = p * (1.0 + k1 * r2 + k2 * r2 * r2) / (1.0 + k1 + k2) / vec2(aspect, 1.0);
+    if (abs(q.x) > 1.0 || abs(q.y) > 1.0) {
+      gl_FragColor = vec4(0.0, 0.0, 0.0, 1.0);
+      return;
+    }
+    gl_FragColor = vec4(toSRGB(texture2D(map, q * 0.5 + 0.5).rgb), 1.0);
+  }
+`
+
+interface Eye {
+  camera: any
+  target: any
+  quad:   any
+  sign:   -1 | 1
+}
+
+export class StereoRenderer {
+  private opts:       Required<StereoOptions>
+  private eyes:       Eye[]
+  private postScene:  any
+  private postCamera: any
+  private _size:      any
+  private width  = 0
+  private height = 0
+
+  constructor(
+    private readonly THREE: any,
+    private readonly renderer: any,
+    opts: StereoOptions = {},
+  ) {
+    this.opts = {
+      eyeSeparation: opts.eyeSeparation ?? 0.064,
+      fov:           opts.fov           ?? 90,
+      k1:            opts.k1            ?? 0.34,
+      k2:            opts.k2            ?? 0.55,
+    }
+    this._size      = new THREE.Vector2()
+    this.postScene  = new THREE.Scene()
+    this.postCamera = new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1)
+
+    const geo = new THREE.PlaneGeometry(1, 2)
+    this.eyes = ([-1, 1] as const).map(sign => {
+      const target = new THREE.WebGLRenderTarget(1, 1, {
+        type:        THREE.HalfFloatType,
+        depthBuffer: true,
+      })
+      const quad = new THREE.Mesh(geo, new THREE.ShaderMaterial({
+        uniforms: {
+          map:    { value: target.texture },
+          k1:     { value: this.opts.k1 },
+          k2:     { value: this.opts.k2 },
+          aspect: { value: 1 },
+        },
+        vertexShader:   VERTEX_SHADER,
+        fragmentShader: FRAGMENT_SHADER,
+        depthTest:      false,
+        depthWrite:     false,
+      }))
+      quad.position.x = sign * 0.5
+      this.postScene.add(quad)
+      return { camera: new THREE.PerspectiveCamera(this.opts.fov, 1, 0.1, 1000), target, quad, sign }
+    })
+  }
+
+  render(scene: any, camera: any): void {
+    const { renderer } = this
+    this._fitToCanvas()
+
+    camera.updateMatrixWorld()
+    for (const eye of this.eyes) {
+      eye.camera.position.copy(camera.position)
+      eye.camera.quaternion.copy(camera.quaternion)
+      eye.camera.translateX(eye.sign * this.opts.eyeSeparation / 2)
+      eye.camera.updateMatrixWorld()
+      renderer.setRenderTarget(eye.target)
+      renderer.render(scene, eye.camera)
+    }
+    renderer.setRenderTarget(null)
+    renderer.render(this.postScene, this.postCamera)
+  }
+
+  dispose(): void {
+    for (const eye of this.eyes) {
+      eye.target.dispose()
+      eye.quad.material.dispose()
+    }
+    this.eyes[0].quad.geometry.dispose()
+  }
+
+  // ── Private helpers ───────────────────────────────────────────────────────
+
+  /** Resizes the eye targets when the drawing buffer changes. */
+  private _fitToCanvas(): void {
+    const size = this.renderer.getDrawingBufferSize(this._size)
+    const w    = Math.max(1, Math.floor(size.x / 2))
+    const h    = Math.max(1, size.y)
+    if (w === this.width && h === this.height) return
+    this.width  = w
+    this.height = h
+    for (const eye of this.eyes) {
+      eye.target.setSize(w, h)
+      eye.camera.aspect = w / h
+      eye.camera.updateProjectionMatrix()
+      eye.quad.material.uniforms.aspect.value = w / h
+    }
+  }
+}
@@ -4,6 +4,9 @@ import {ArUiOverlay, requestFullscreenNow,
         maintainFullscreen, installViewportFix}           from './ar-ui-overlay'
 import {BillboardManager}                                 from './billboard-manager'
 import {Viewer360}                                        from './viewer-360'
+import {ExperienceRegistry}                               from './experience-registry'
+import {MiniMap}                                          from './mini-map'
+import {parseViewerHash, urlWithoutHash}                  from './url-state'
 import {checkArSupport, checkCameraAccess}                from './device-check'
 
 // ── Install orientation fix ASAP ─────────────────────────────────────────────
@@ -78,8 +81,43 @@ ecs.registerComponent({
     let placedY      = 0
     let heightOffset = 0
 
-    const ui     = new ArUiOverlay()
-    const viewer = new Viewer360(THREE)
+    const ui       = new ArUiOverlay()
+    const registry = new ExperienceRegistry()
+    const miniMap  = new MiniMap(THREE)
+    const viewer   = new Viewer360(THREE, {
+      registry,
+      miniMap,
+      // ?debug in the page URL shows manifest.json problems on screen.
+      debug: new URLSearchParams(window.location.search).has('debug'),
+    })
+
+    // Deep link (#360=HOTSPOT/idx, see url-state.ts): opened once the terrain
+    // is placed. The hash is dropped now so the viewer's own history entry sits
+    // on a clean URL and Back returns to AR rather than reopening it.
+    let deepLink = parseViewerHash(window.location.hash)
+    if (deepLink) history.replaceState(history.state, '', urlWithoutHash())
+
+    const openViewer = (name: string, startIdx = 0) => {
+      // Cancel pending hint + dismiss if already visible
+      clearTimeout(hotspotHintTimer)
+      ui.hideHotspotHint()
+
+      if (viewing360) return
+      viewing360 = true
+      registry.setCurrent(name)
+
+      gestures?.detach()
+      ui.hideResetButton()
+      ui.hideRotationBar()
+      ui.hideHeightBar()
+      ui.hideGestureHint()
+
+      viewer.open(name, async () => {
+        viewing360 = false
+        await performReset(registerResetBtn)
+        restoreArUi()
+      }, startIdx)
+    }
 
     const boards = new BillboardManager(THREE, {
       baseSize:       0.35,
@@ -87,26 +125,7 @@ ecs.registerComponent({
       debug:          false,
       scaleOverrides: HOTSPOT_SCALE_OVERRIDES,
       getCamera: () => (world.three as any).camera,
-      onHotspotTap: (name) => {
-        // Cancel pending hint + dismiss if already visible
-        clearTimeout(hotspotHintTimer)
-        ui.hideHotspotHint()
-
-        if (viewing360) return
-        viewing360 = true
-
-        gestures?.detach()
-        ui.hideResetButton()
-        ui.hideRotationBar()
-        ui.hideHeightBar()
-        ui.hideGestureHint()
-
-        viewer.open(name, async () => {
-          viewing360 = false
-          await performReset(registerResetBtn)
-          restoreArUi()
-        })
-      },
+      onHotspotTap: (name) => openViewer(name),
     })
 
     const doReady  = ecs.defineTrigger()
@@ -175,7 +194,10 @@ ecs.registerComponent({
 
       boards.dispose(world.three.scene)
       const obj = getTerrainObj()
-      if (obj) await boards.init(obj, world.three.scene)
+      if (obj) {
+        registry.register(await boards.init(obj, world.three.scene))
+        miniMap.setSource(obj, boards.getAnchors())
+      }
 
       reRegisterResetBtn()
     }
@@ -236,7 +258,10 @@ ecs.registerComponent({
 
         boards.dispose(world.three.scene)
         const obj = getTerrainObj()
-        if (obj) await boards.init(obj, world.three.scene)
+        if (obj) {
+          registry.register(await boards.init(obj, world.three.scene))
+          miniMap.setSource(obj, boards.getAnchors())
+        }
 
         restoreArUi()
         registerResetBtn()
@@ -248,6 +273,15 @@ ecs.registerComponent({
           hotspotHintShown = true
           hotspotHintTimer = window.setTimeout(() => ui.showHotspotHint(), 6200)
         }
+
+        // Not inside a tap, so iOS can't grant gyro here — the viewer opens in
+        // touch mode and its gyro toggle asks for permission.
+        if (deepLink) {
+          const { hotspot, idx } = deepLink
+          deepLink = null
+          if (registry.has(hotspot)) openViewer(hotspot, idx)
+          else console.warn(`[terrain-tap-place] deep link to unknown hotspot "${hotspot}"`)
+        }
       })
       .onTick(() => {
         if (viewing360) return
@@ -0,0 +1,130 @@
+/**
+ * TextureCache — byte-budgeted LRU cache for Viewer360 panoramas
+ *
+ * Tracks the estimated GPU size of every cached texture and, whenever the
+ * total exceeds the budget, disposes the least recently used textures that are
+ * not pinned. The viewer pins the image on screen and its neighbours.
+ *
+ * The cache outlives a viewer session: release() (on close) frees every GPU
+ * copy — the renderer is about to be destroyed anyway — but keeps up to
+ * `retainBytes` of textures with their decoded images, so reopening a recent
+ * hotspot uploads from memory instead of downloading again. A new renderer
+ * re-uploads a released texture on first use.
+ *
+ * Failed loads (null, or a rejected loader) are not cached, so they are
+ * retried on the next request.
+ */
+
+interface Entry {
+  tex:   any
+  bytes: number
+}
+
+export class TextureCache {
+  // Map iteration order is insertion order: first = least recently used.
+  private entries = new Map<string, Entry>()
+  private pending = new Map<string, Promise<any>>()
+  private pinned  = new Set<string>()
+  private bytes   = 0
+  private limit:  number
+
+  constructor(
+    private readonly budgetBytes: number,
+    private readonly retainBytes: number,
+  ) {
+    this.limit = budgetBytes
+  }
+
+  get usedBytes(): number {
+    return this.bytes
+  }
+
+  /** Cached texture for `key` without changing its LRU position. */
+  peek(key: string): any | null {
+    return this.entries.get(key)?.tex ?? null
+  }
+
+  /**
+   * Returns the cached texture for `key`, or runs `loader` once (concurrent
+   * callers share the same promise) and caches its result. A rejected loader
+   * resolves null. The new texture is never evicted by its own insertion —
+   * the caller is about to show or pin it.
+   */
+  load(key: string, loader: () => Promise<any>): Promise<any> {
+    const hit = this.entries.get(key)
+    if (hit) {
+      this._touch(key, hit)
+      return Promise.resolve(hit.tex)
+    }
+    const inFlight = this.pending.get(key)
+    if (inFlight) return inFlight
+
+    const promise = loader().catch(() => null).then(tex => {
+      this.pending.delete(key)
+      if (tex) {
+        const bytes = estimateTextureBytes(tex)
+        this.entries.set(key, { tex, bytes })
+        this.bytes += bytes
+        this.evict(key)
+      }
+      return tex
+    })
+    this.pending.set(key, promise)
+    return promise
+  }
+
+  /** Replaces the pinned set. Pinned textures are never evicted. */
+  pin(keys: Iterable<string>): void {
+    this.pinned = new Set(keys)
+    this.limit  = this.budgetBytes
+    this.evict()
+  }
+
+  /**
+   * Disposes least recently used, unpinned textures until within the limit.
+   * `keep` is spared like a pinned key.
+   */
+  evict(keep?: string): void {
+    for (const [key, entry] of this.entries) {
+      if (this.bytes <= this.limit) return
+      if (this.pinned.has(key) || key === keep) continue
+      this._drop(key, entry)
+    }
+  }
+
+  /**
+   * Ends a viewer session: unpins everything, frees all GPU copies and trims
+   * the cache to the retain budget until the next pin().
+   */
+  release(): void {
+    this.pinned.clear()
+    this.limit = this.retainBytes
+    this.evict()
+    for (const { tex } of this.entries.values()) tex.dispose()
+  }
+
+  // ── Private helpers ───────────────────────────────────────────────────────
+
+  private _touch(key: string, entry: Entry): void {
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+  }
+
+  private _drop(key: string, entry: Entry): void {
+    entry.tex.dispose()
+    this.entries.delete(key)
+    this.bytes -= entry.bytes
+  }
+}
+
+/** RGBA bytes of a texture once uploaded, including the mip chain. */
+export function estimateTextureBytes(tex: any): number {
+  const images: any[] = tex.isCubeTexture ? tex.image : [tex.image]
+  let pixels = 0
+  for (const img of images) {
+    const w = img?.naturalWidth || img?.videoWidth || img?.width || 0
+    const h = img?.naturalHeight || img?.videoHeight || img?.height || 0
+    pixels += w * h
+  }
+  return Math.round(pixels * 4 * (tex.generateMipmaps ? 4 / 3 : 1))
+}
@@ -0,0 +1,197 @@
+/**
+ * TiledPanorama — multi-resolution equirectangular tiles for Viewer360
+ *
+ * The viewer shows a low-res preview on its base sphere first; this class then
+ * streams higher-resolution tiles for the part of the sphere the camera is
+ * looking at. Each tile is a small sphere patch drawn just inside the base
+ * sphere, so loaded tiles simply cover the preview.
+ *
+ * ── Directory layout ─────────────────────────────────────────────────────────
+ *
+ *   assets/360/<folder>/<stem>/preview.jpg               ← base sphere
+ *   assets/360/<folder>/<stem>/<level>/<row>_<col>.jpg   ← tiles
+ *
+ *   Level 0 is the lowest resolution. A level is `cols × rows` square tiles of
+ *   `tileSize` px covering the full equirectangular image (row 0 = top).
+ *
+ * ── GPU budget ───────────────────────────────────────────────────────────────
+ *
+ *   Tiles are uploaded without mipmaps, so each costs exactly tileSize² × 4
+ *   bytes. The number of resident tiles is capped by the byte budget given to
+ *   the constructor; the least recently visible tiles are disposed first.
+ */
+
+export interface TileLevel {
+  cols: number
+  rows: number
+}
+
+export interface TileSpec {
+  tileSize: number
+  levels:   TileLevel[]
+}
+
+const TILE_EXT        = '.jpg'
+const MAX_CONCURRENT  = 4
+const BASE_RADIUS     = 490   // just inside Viewer360's 500-unit sphere
+const LEVEL_STEP      = 2     // higher levels sit closer → drawn over lower ones
+
+interface Tile {
+  mesh:     any
+  tex:      any | null
+  loading:  boolean
+  lastSeen: number
+}
+
+export class TiledPanorama {
+  private group:   any
+  private loader:  any
+  private tiles    = new Map<string, Tile>()
+  private frame    = 0
+  private inFlight = 0
+  private disposed = false
+  private maxTiles: number
+  private _fwd:    any
+
+  constructor(
+    private readonly THREE: any,
+    private readonly scene: any,
+    private readonly baseUrl: string,
+    private readonly spec: TileSpec,
+    budgetBytes: number,
+  ) {
+    this.group    = new THREE.Group()
+    this.loader   = new THREE.TextureLoader()
+    this._fwd     = new THREE.Vector3()
+    this.maxTiles = Math.max(1, Math.floor(budgetBytes / (spec.tileSize * spec.tileSize * 4)))
+    scene.add(this.group)
+  }
+
+  /** Picks a level for the current zoom, then loads and evicts tiles. */
+  update(camera: any, viewportH: number): void {
+    if (this.disposed || !this.spec.levels.length) return
+    this.frame++
+
+    const level = this._pickLevel(camera.fov, viewportH)
+    const {cols, rows} = this.spec.levels[level]
+
+    camera.getWorldDirection(this._fwd)
+    const vHalf   = camera.fov / 2
+    const hHalf   = Math.atan(Math.tan(vHalf * Math.PI / 180) * camera.aspect) * 180 / Math.PI
+    const camHalf = Math.hypot(vHalf, hHalf)
+    const tileRad = Math.hypot(180 / cols, 90 / rows)
+
+    const wanted: Array<{key: string; row: number; col: number; angle: number}> = []
+    for (let row = 0; row < rows; row++) {
+      const lat = (90 - (row + 0.5) / rows * 180) * Math.PI / 180
+      for (let col = 0; col < cols; col++) {
+        const lon = (col + 0.5) / cols * 2 * Math.PI
+        const dot =
+          this._fwd.x * Math.cos(lat) * Math.cos(lon) +
+          this._fwd.y * Math.sin(lat) +
+          this._fwd.z * Math.cos(lat) * Math.sin(lon)
+        const angle = Math.acos(Math.max(-1, Math.min(1, dot))) * 180 / Math.PI
+        if (angle > camHalf + tileRad) continue
+
+        const key  = `${level}/${row}_${col}`
+        const tile = this.tiles.get(key)
+        if (tile) tile.lastSeen = this.frame
+        else      wanted.push({key, row, col, angle})
+      }
+    }
+
+    // Closest to the centre of view first.
+    wanted.sort((a, b) => a.angle - b.angle)
+    for (const w of wanted) {
+      if (this.inFlight >= MAX_CONCURRENT) break
+      this._load(level, w.row, w.col, w.key)
+    }
+
+    this._evict()
+  }
+
+  dispose(): void {
+    this.disposed = true
+    for (const tile of this.tiles.values()) this._disposeTile(tile)
+    this.tiles.clear()
+    this.scene.remove(this.group)
+  }
+
+  // ── Private helpers ───────────────────────────────────────────────────────
+
+  /**
+   * Lowest level whose pixel density (px per degree) matches the screen's at
+   * the current FOV; the highest level if none does.
+   */
+  private _pickLevel(fovDeg: number, viewportH: number): number {
+    const screenPxPerDeg = viewportH / fovDeg
+    const {levels, tileSize} = this.spec
+    for (let i = 0; i < levels.length; i++) {
+      if (levels[i].cols * tileSize / 360 >= screenPxPerDeg) return i
+    }
+    return levels.length - 1
+  }
+
+  private _load(level: number, row: number, col: number, key: string): void {
+    const {THREE} = this
+    const {cols, rows} = this.spec.levels[level]
+
+    const segW = Math.max(2, Math.ceil(64 / cols))
+    const segH = Math.max(2, Math.ceil(32 / rows))
+    const geo  = new THREE.SphereGeometry(
+      BASE_RADIUS - level * LEVEL_STEP, segW, segH,
+      col / cols * 2 * Math.PI, 2 * Math.PI / cols,
+      row / rows * Math.PI,     Math.PI / rows,
+    )
+    geo.scale(-1, 1, 1)
+    const mesh = new THREE.Mesh(geo, new THREE.MeshBasicMaterial({color: 0xffffff}))
+    mesh.visible = false
+
+    const tile: Tile = {mesh, tex: null, loading: true, lastSeen: this.frame}
+    this.tiles.set(key, tile)
+    this.group.add(mesh)
+    this.inFlight++
+
+    this.loader.load(
+      `${this.baseUrl}/${level}/${row}_${col}${TILE_EXT}`,
+      (tex: any) => {
+        this.inFlight--
+        tile.loading = false
+        if (this.disposed || this.tiles.get(key) !== tile) { tex.dispose(); return }
+        tex.colorSpace      = THREE.SRGBColorSpace ?? THREE.sRGBEncoding
+        tex.generateMipmaps = false
+        tex.minFilter       = THREE.LinearFilter
+        tile.tex = tex
+        mesh.material.map = tex
+        mesh.material.needsUpdate = true
+        mesh.visible = true
+      },
+      undefined,
+      () => {
+        // Keep the failed tile in the map so it isn't retried every frame;
+        // the preview stays visible underneath.
+        this.inFlight--
+        tile.loading = false
+      },
+    )
+  }
+
+  private _evict(): void {
+    const resident = [...this.tiles.entries()].filter(([, t]) => t.tex)
+    if (resident.length <= this.maxTiles) return
+    resident.sort((a, b) => a[1].lastSeen - b[1].lastSeen)
+    for (const [key, tile] of resident.slice(0, resident.length - this.maxTiles)) {
+      if (tile.lastSeen === this.frame) break   // never evict what is on screen
+      this._disposeTile(tile)
+      this.tiles.delete(key)
+    }
+  }
+
+  private _disposeTile(tile: Tile): void {
+    this.group.remove(tile.mesh)
+    tile.mesh.geometry.dispose()
+    tile.mesh.material.dispose()
+    tile.tex?.dispose()
+    tile.tex = null
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * TransitionLayer — blends Viewer360 from one panorama to the next
+ *
+ * A second, smaller sphere holding the outgoing texture is drawn on top of
+ * everything (depth test off) and faded out over the new panorama. It keeps
+ * the outgoing image where it was on screen even though the camera jumps to
+ * the new image's initial heading.
+ *
+ * Styles:
+ *   fade  — plain crossfade
+ *   walk  — crossfade while the outgoing image moves towards the viewer, like
+ *           stepping forward to the next viewpoint
+ *   black — outgoing image fades to black, then black fades to the new one
+ *   none  — instant swap
+ *
+ * Without an outgoing texture (cubemap or video, which the layer can't show)
+ * every style falls back to a fade from black.
+ */
+
+export type TransitionStyle = 'fade' | 'walk' | 'black' | 'none'
+
+const LAYER_RADIUS = 450   // inside the base sphere and the tile layers
+const WALK_DIST    = 0.6   // how far the outgoing image travels, × radius
+
+export class TransitionLayer {
+  private mesh:   any
+  private style:  TransitionStyle = 'none'
+  private start   = 0
+  private duration = 0
+  private _q0Inv: any
+  private _fwd:   any
+
+  constructor(private readonly THREE: any, private readonly scene: any) {
+    const geo = new THREE.SphereGeometry(LAYER_RADIUS, 48, 32)
+    geo.scale(-1, 1, 1)
+    this.mesh = new THREE.Mesh(geo, new THREE.MeshBasicMaterial({
+      transparent: true,
+      depthTest:   false,
+      depthWrite:  false,
+    }))
+    this.mesh.renderOrder = 10
+    this.mesh.visible     = false
+    this._q0Inv = new THREE.Quaternion()
+    this._fwd   = new THREE.Vector3()
+    scene.add(this.mesh)
+  }
+
+  get active(): boolean {
+    return this.mesh.visible
+  }
+
+  /**
+   * Starts blending away from `outgoing` (the texture on screen now, or null)
+   * as seen from `camera`. Call before the new texture is applied.
+   */
+  begin(outgoing: any | null, camera: any, style: TransitionStyle, durationMs: number): void {
+    if (style === 'none' || durationMs <= 0) { this._end(); return }
+    const mat = this.mesh.material
+    mat.map = outgoing
+    mat.color.set(outgoing ? 0xffffff : 0x000000)
+    mat.opacity     = 1
+    mat.needsUpdate = true
+    this.style    = outgoing ? style : 'fade'
+    this.start    = performance.now()
+    this.duration = durationMs
+    this._q0Inv.copy(camera.quaternion).invert()
+    this.mesh.position.set(0, 0, 0)
+    this.mesh.quaternion.identity()
+    this.mesh.visible = true
+  }
+
+  /** Advances the blend; call every frame before rendering. */
+  update(camera: any, now: number): void {
+    if (!this.mesh.visible) return
+    const t = Math.min(1, (now - this.start) / this.duration)
+    if (t >= 1) { this._end(); return }
+    const e   = t * t * (3 - 2 * t)   // smoothstep
+    const mat = this.mesh.material
+
+    // Follow the camera so the outgoing image stays put on screen.
+    this.mesh.quaternion.copy(camera.quaternion).multiply(this._q0Inv)
+
+    switch (this.style) {
+      case 'fade':
+        mat.opacity = 1 - e
+        break
+      case 'walk':
+        mat.opacity = 1 - e
+        camera.getWorldDirection(this._fwd)
+        this.mesh.position.copy(this._fwd).multiplyScalar(-LAYER_RADIUS * WALK_DIST * e)
+        break
+      case 'black':
+        if (t < 0.5) {
+          mat.color.setScalar(1 - 2 * t)
+          mat.opacity = 1
+        } else {
+          mat.color.setScalar(0)
+          mat.opacity = 2 - 2 * t
+        }
+        break
+    }
+  }
+
+  dispose(): void {
+    this.scene.remove(this.mesh)
+    this.mesh.geometry.dispose()
+    this.mesh.material.dispose()
+  }
+
+  // ── Private helpers ───────────────────────────────────────────────────────
+
+  private _end(): void {
+    this.mesh.visible = false
+    this.mesh.material.map = null
+    this.mesh.material.needsUpdate = true
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * Deep-link state for Viewer360 in the URL hash: `#360=<HOTSPOT>/<index>`.
+ *
+ *   https://…/#360=SETTIMANA/2   → third image of the SETTIMANA hotspot
+ *
+ * HOTSPOT is the manifest key (URI-encoded); the index is 0-based like the
+ * `image` field of manifest links, and optional (defaults to 0).
+ */
+
+const HASH_KEY = '360'
+
+export interface ViewerLink {
+  hotspot: string
+  idx:     number
+}
+
+/** Reads a viewer link from a location hash, or null if there is none. */
+export function parseViewerHash(hash: string): ViewerLink | null {
+  const value = new URLSearchParams(hash.replace(/^#/, '')).get(HASH_KEY)
+  if (!value) return null
+  const [hotspot, idx] = value.split('/')
+  if (!hotspot) return null
+  const n = Number(idx)
+  return { hotspot, idx: Number.isInteger(n) && n > 0 ? n : 0 }
+}
+
+export function formatViewerHash(link: ViewerLink): string {
+  return `#${HASH_KEY}=${encodeURIComponent(link.hotspot)}/${link.idx}`
+}
+
+/** The current URL without its hash, for history.replaceState(). */
+export function urlWithoutHash(): string {
+  return window.location.pathname + window.location.search
+}
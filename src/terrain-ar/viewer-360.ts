@@ -14,31 +14,101 @@
  *  - WebGL context-loss handler added so the page degrades gracefully instead
  *    of hanging with a black screen.
  *
- * Multi-image per hotspot with a sliding-window texture cache.
+ * Multi-image per hotspot with a byte-budgeted LRU texture cache (TextureCache)
+ * that pins the current image and its neighbours and survives between opens.
+ * Gyro and touch drag combine: dragging in gyro mode adds a yaw / pitch offset
+ * on top of the device pose, and the top-right toggle switches the gyro on or
+ * off mid-session.
+ * Images declared in `tiles` load a low-res preview first, then stream
+ * view-dependent high-res tiles through TiledPanorama within a GPU budget.
+ * Hotspots with `"projection": "cubemap"` load six faces per image instead of
+ * one equirectangular JPG and show them as the scene background.
+ * Image entries ending in .mp4 / .webm are equirectangular videos, played on
+ * the sphere through a VideoTexture with play / pause / mute controls.
+ * Previous / next place controls in the top bar step through the hotspots of
+ * an ExperienceRegistry (see Viewer360Options) without returning to AR.
+ * A fast flick that starts near the left / right edge, or a two-finger
+ * horizontal swipe, goes to the previous / next image; drags that start
+ * further in stay look-around.
+ * On desktop, mouse drag looks around, the wheel zooms, ← / → and
+ * PageUp / PageDown step through the images, and Escape closes the viewer.
+ * With the gyro available, a VR button switches to a side-by-side cardboard
+ * view (StereoRenderer) driven by the same gyro pipeline, hiding the UI.
+ * In touch mode, after idleRotateMs without input the view pans slowly and,
+ * with slideshowMs set, advances through the images — for unattended kiosks.
+ * The open hotspot and image are mirrored in the URL hash (`#360=NAME/idx`,
+ * see url-state.ts); opening pushes a history entry, so Back closes the viewer.
+ * An optional MiniMap inset shows where the hotspot sits on the terrain and
+ * which way the camera is looking — true to the compass for images with a
+ * northOffset, relative to the opening view otherwise.
+ * Image changes blend through a TransitionLayer (fade, walk-forward or
+ * fade-through-black) instead of swapping instantly; following a link walks.
+ * Images with `audio` get a narration player (NarrationPlayer) with play /
+ * pause and a seekable progress bar; a hotspot `ambient` track loops beneath.
+ * Tracks fade out on navigation and stop when the viewer closes.
+ * The camera button next to close saves the current view — without the UI,
+ * stamped with the image title and an optional logo — through the Web Share
+ * API, or as a download where sharing files is not supported.
+ * Tapping the dots opens a strip of thumbnails (<folder>/thumbs/<stem>.jpg,
+ * made by scripts/make-thumbs.ts) with the image labels, to jump to any image.
  *
  * ── Directory layout ─────────────────────────────────────────────────────────
  *
  *   assets/360/manifest.json
  *   assets/360/<folder name on disk>/<image stem>.jpg
+ *   assets/360/<folder name on disk>/<image stem>/{px,nx,py,ny,pz,nz}.jpg  ← cubemap
+ *   assets/360/<folder name on disk>/<video name>.mp4 | .webm           ← video
+ *   assets/360/<folder name on disk>/<any path>.mp3 | .m4a …           ← audio
+ *   assets/360/<folder name on disk>/thumbs/<image stem>.jpg           ← picker
  *
- * ── manifest.json format ─────────────────────────────────────────────────────
+ * ── manifest.json format (types + validation in manifest.ts) ─────────────────
  *
  *   {
  *     "BLENDER_HOTSPOT_NAME": {
  *       "folder": "Exact folder name on disk",
+ *       "projection": "equirect" | "cubemap",                 ← optional
  *       "images": ["stem1", "stem2", ...],
- *       "labels": ["Display name 1", "Display name 2", ...]   ← optional
+ *       "labels": ["Display name 1", "Display name 2", ...],  ← optional
+ *       "links":  [[{ "yaw": 120, "pitch": -5, "image": 1 }], ...]  ← optional
+ *       "annotations": [[{ "yaw": 80, "pitch": 10, "title": "…" }], ...]  ← optional
+ *       "tiles":  [null, { "tileSize": 512, "levels": [...] }, ...]  ← optional
+ *       "initialYaw": [120, ...], "initialPitch": [-5, ...]     ← optional
+ *       "northOffset": [310, ...]                              ← optional
+ *       "audio": ["audio/a.mp3", { "it": "…", "en": "…" }, null, ...]  ← optional
+ *       "ambient": "audio/wind.mp3"                            ← optional
  *     },
  *     ...
  *   }
+ *
+ * ── Sphere coordinates ───────────────────────────────────────────────────────
+ *
+ *   Anything placed on the panorama uses yaw/pitch in degrees (on a cubemap,
+ *   yaw 0 faces the centre of nx and yaw 90 the centre of pz):
+ *     yaw   0…360 — from the left edge of the equirectangular image, rightwards
+ *                   (yaw = pixelX / imageWidth × 360)
+ *     pitch −90…90 — from the horizon, up positive
+ *                   (pitch = 90 − pixelY / imageHeight × 180)
  */
 
-import {probeGyroscope} from './device-check'
+import {probeGyroscope}     from './device-check'
+import {ExperienceRegistry} from './experience-registry'
+import {
+  HotspotEntry, Manifest, ManifestReport, PanoAnnotation, PanoLink, Projection,
+  VIDEO_EXT_RE, formatIssue, loadManifest,
+} from './manifest'
+import {MiniMap}            from './mini-map'
+import {NarrationPlayer, pickAudio} from './narration-player'
+import {StereoRenderer}     from './stereo-renderer'
+import {TextureCache}       from './texture-cache'
+import {TransitionLayer, TransitionStyle} from './transition-layer'
+import {formatViewerHash}   from './url-state'
+import {TiledPanorama, TileSpec} from './tiled-panorama'
 
 // ── Config ────────────────────────────────────────────────────────────────────
 
 const BASE_PATH    = 'assets/360/'
 const IMAGE_EXT    = '.jpg'
+const THUMB_DIR    = 'thumbs'
 const MANIFEST_URL = `${BASE_PATH}manifest.json`
 
 // Maximum texture dimensions uploaded to GPU on iOS.
@@ -46,12 +116,116 @@ const MANIFEST_URL = `${BASE_PATH}manifest.json`
 const IOS_MAX_TEX_W = 4096
 const IOS_MAX_TEX_H = 2048
 
-interface HotspotEntry {
-  folder: string
-  images: string[]
-  labels?: string[]
+// Camera field of view (degrees). Pinch zoom moves between the limits, which
+// can be overridden through Viewer360Options.
+const DEFAULT_FOV = 75
+const MIN_FOV     = 30
+const MAX_FOV     = 90
+
+// Panorama texture cache (see texture-cache.ts). Budget while the viewer is
+// open / what is kept between opens. iOS: three capped textures with mipmaps
+// while open (current ±1), one kept. Elsewhere it scales with
+// navigator.deviceMemory (GB, assumed 4 when unknown).
+const IOS_TEX_BYTES          = IOS_MAX_TEX_W * IOS_MAX_TEX_H * 4 * 4 / 3
+const IOS_CACHE_BUDGET_BYTES = IOS_TEX_BYTES * 3
+const IOS_CACHE_RETAIN_BYTES = IOS_TEX_BYTES
+const CACHE_BYTES_PER_GB     = 64 * 1024 * 1024
+const MIN_CACHE_BUDGET_BYTES = 128 * 1024 * 1024
+const MAX_CACHE_BUDGET_BYTES = 512 * 1024 * 1024
+
+// Kiosk idle behaviour; all overridable through Viewer360Options.
+const IDLE_ROTATE_MS    = 15000
+const IDLE_ROTATE_SPEED = 3       // degrees per second
+const SLIDESHOW_MS      = 0       // off
+
+// Image change transitions (see transition-layer.ts). The spinner only shows
+// when a load takes longer than LOADING_DELAY_MS, so cached images swap
+// without a flash.
+const TRANSITION_MS    = 600
+const LOADING_DELAY_MS = 150
+
+// A video that hasn't reported its metadata by then counts as failed.
+const VIDEO_LOAD_TIMEOUT_MS = 15000
+
+// history.state field marking the entry the viewer pushed; the value tells
+// one session's entry from the next.
+const HISTORY_STATE_KEY = 'v360'
+
+// Swipe to change image. A one-finger flick only counts when it starts in the
+// edge zone and moves away from that edge; a two-finger swipe anywhere counts
+// if the finger spread stays nearly constant (otherwise it is a pinch).
+const SWIPE_EDGE_FRAC     = 0.15   // edge zone, fraction of the screen width
+const SWIPE_MIN_PX        = 60
+const SWIPE_FLICK_MS      = 300
+const SWIPE_TWO_FINGER_MS = 600
+const SWIPE_SPREAD_TOL    = 0.2    // max relative change of the finger spread
+
+// Tiled images: the preview sits at <folder>/<stem>/preview.jpg. With a
+// preview of ≤2048×1024 (8 MB), preview + tiles stay within the ~32 MB of one
+// IOS_MAX_TEX_W × IOS_MAX_TEX_H texture.
+const TILE_PREVIEW          = 'preview'
+const IOS_TILE_BUDGET_BYTES = IOS_MAX_TEX_W * IOS_MAX_TEX_H * 3
+const TILE_BUDGET_BYTES     = IOS_TILE_BUDGET_BYTES * 4
+
+// Cubemap faces, in THREE.CubeTexture order. On iOS each face is capped at
+// 1024² so all six (~24 MB) fit the same budget as one equirect texture.
+const CUBE_FACES   = ['px', 'nx', 'py', 'ny', 'pz', 'nz'] as const
+const IOS_MAX_FACE = 1024
+
+export interface Viewer360Options {
+  /**
+   * Hotspot order used by the "previous / next place" controls. Should be
+   * filled from the names returned by BillboardManager.init(). Without it (or
+   * with fewer than two places) the place controls are not shown.
+   */
+  registry?: ExperienceRegistry
+  /** Narrowest FOV reachable with pinch zoom (most zoomed in). Default 30°. */
+  minFov?: number
+  /** Widest FOV reachable with pinch zoom. Default 90°. */
+  maxFov?: number
+  /**
+   * Top-down terrain inset shown bottom-left. Give it a source with
+   * MiniMap.setSource() after BillboardManager.init(); until then it is hidden.
+   */
+  miniMap?: MiniMap | null
+  /**
+   * Touch mode only: ms without any input before the view starts panning on
+   * its own. 0 disables idle behaviour (and the slideshow). Default 15000.
+   */
+  idleRotateMs?: number
+  /** Idle pan speed in degrees per second. Default 3. */
+  idleRotateSpeed?: number
+  /**
+   * While idle, ms between automatic steps to the next image of the hotspot
+   * (wrapping around). 0 disables the slideshow. Default 0.
+   */
+  slideshowMs?: number
+  /** Transition between images and places. Default 'fade'. */
+  transition?: TransitionStyle
+  /** Transition when following an in-scene link. Default 'walk'. */
+  linkTransition?: TransitionStyle
+  /** Transition duration in ms. Default 600. */
+  transitionMs?: number
+  /**
+   * Start an image's narration on its own. A pause by the user carries over
+   * to the following images. Default true.
+   */
+  audioAutoplay?: boolean
+  /** Volume of a hotspot's ambient loop, 0–1. Default 0.35. */
+  ambientVolume?: number
+  /** Stamp snapshots with the current image title. Default true. */
+  snapshotTitle?: boolean
+  /**
+   * Logo drawn in the bottom-right corner of snapshots (same origin, or
+   * served with CORS). Default none.
+   */
+  snapshotLogoUrl?: string | null
+  /**
+   * Shows the manifest validation report (see manifest.ts) in an on-screen
+   * panel when it has issues. Issues are always logged to the console.
+   */
+  debug?: boolean
 }
-type Manifest = Record<string, HotspotEntry>
 
 // ── iOS detection (shared internally) ────────────────────────────────────────
 
@@ -62,6 +236,22 @@ function isIOSDevice(): boolean {
   )
 }
 
+/** Decodes a data: URL synchronously (canvas.toBlob would be async). */
+function dataUrlToBlob(dataUrl: string): Blob {
+  const [head, body] = dataUrl.split(',')
+  const bin   = atob(body)
+  const bytes = new Uint8Array(bin.length)
+  for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i)
+  return new Blob([bytes], { type: head.slice(5).split(';')[0] })
+}
+
+function createTextureCache(): TextureCache {
+  if (isIOSDevice()) return new TextureCache(IOS_CACHE_BUDGET_BYTES, IOS_CACHE_RETAIN_BYTES)
+  const gb     = (navigator as any).deviceMemory ?? 4
+  const budget = Math.max(MIN_CACHE_BUDGET_BYTES, Math.min(MAX_CACHE_BUDGET_BYTES, gb * CACHE_BYTES_PER_GB))
+  return new TextureCache(budget, budget / 2)
+}
+
 // ── Styles ────────────────────────────────────────────────────────────────────
 const injectStyles = (() => {
   let done = false
@@ -80,16 +270,18 @@ const injectStyles = (() => {
       #v360-canvas {
         position: absolute; inset: 0;
         width: 100%; height: 100%; display: block;
+        cursor: grab;
       }
+      #v360-canvas.v360-grabbing { cursor: grabbing; }
 
       /* ── Top bar: X close on the left ── */
       #v360-topbar {
         position: absolute; top: 0; left: 0; right: 0;
-        display: flex; align-items: center; justify-content: flex-start;
+        display: flex; align-items: center; justify-content: space-between;
         padding: 18px 16px 0;
         z-index: 2; pointer-events: none;
       }
-      #v360-close-360 {
+      #v360-close-360, #v360-snapshot {
         display: flex; align-items: center; justify-content: center;
         background: rgba(255,255,255,0.92); border: none; border-radius: 50%;
         width: 42px; height: 42px; flex-shrink: 0;
@@ -98,7 +290,109 @@ const injectStyles = (() => {
         -webkit-tap-highlight-color: transparent;
         transition: background 0.15s;
       }
-      #v360-close-360:active { background: rgba(235,248,255,0.98); }
+      #v360-close-360:active, #v360-snapshot:active { background: rgba(235,248,255,0.98); }
+      #v360-snapshot { margin: 0 auto 0 10px; }
+
+      /* ── Top bar: previous / next place on the right ── */
+      #v360-place-nav {
+        display: flex; align-items: center; gap: 2px;
+        background: rgba(255,255,255,0.92); border-radius: 21px;
+        height: 42px; padding: 0 4px;
+        pointer-events: all;
+        box-shadow: 0 2px 12px rgba(0,0,0,0.18);
+      }
+      .v360-place-btn {
+        display: flex; align-items: center; justify-content: center;
+        background: none; border: none; border-radius: 50%;
+        width: 34px; height: 34px;
+        color: #4ab8d8; cursor: pointer;
+        -webkit-tap-highlight-color: transparent;
+        transition: background 0.15s;
+      }
+      .v360-place-btn:active { background: rgba(235,248,255,0.98); }
+      #v360-place-count {
+        min-width: 44px; text-align: center;
+        font-family: 'Helvetica Neue', Helvetica, Arial, sans-serif;
+        font-size: 11px; font-weight: 600; letter-spacing: 0.08em;
+        color: #4ab8d8;
+      }
+
+      /* ── Markers projected from the sphere ── */
+      #v360-markers {
+        position: absolute; inset: 0; overflow: hidden;
+        z-index: 1; pointer-events: none;
+      }
+      .v360-marker {
+        position: absolute; left: 0; top: 0;
+        pointer-events: all; will-change: transform;
+      }
+      .v360-link {
+        display: flex; flex-direction: column; align-items: center; gap: 5px;
+        background: none; border: none; padding: 0; cursor: pointer;
+        -webkit-tap-highlight-color: transparent;
+      }
+      .v360-link-arrow {
+        display: flex; align-items: center; justify-content: center;
+        width: 44px; height: 44px; border-radius: 50%;
+        background: rgba(255,255,255,0.92); color: #4ab8d8;
+        box-shadow: 0 2px 12px rgba(0,0,0,0.22);
+        transition: transform 0.15s;
+      }
+      .v360-link:active .v360-link-arrow { transform: scale(0.9); }
+      .v360-link-label {
+        background: rgba(0,0,0,0.45); border-radius: 10px;
+        padding: 3px 9px; max-width: 40vw;
+        font-family: 'Helvetica Neue', Helvetica, Arial, sans-serif;
+        font-size: 10px; font-weight: 600; letter-spacing: 0.08em;
+        text-transform: uppercase; color: #fff;
+        white-space: nowrap; overflow: hidden; text-overflow: ellipsis;
+      }
+
+      .v360-note {
+        display: flex; align-items: center; justify-content: center;
+        width: 28px; height: 28px; border-radius: 50%; padding: 0;
+        background: rgba(74,184,216,0.92); border: 2px solid #fff;
+        font-family: Georgia, 'Times New Roman', serif;
+        font-size: 14px; font-weight: 700; font-style: italic; color: #fff;
+        box-shadow: 0 0 0 6px rgba(74,184,216,0.25), 0 2px 10px rgba(0,0,0,0.25);
+        cursor: pointer; -webkit-tap-highlight-color: transparent;
+      }
+      .v360-note.active { background: #fff; color: #4ab8d8; }
+
+      /* ── Annotation card ── */
+      #v360-card {
+        position: absolute; left: 50%; bottom: 104px;
+        transform: translate(-50%, 8px);
+        width: min(320px, 84vw); max-height: 52vh; overflow-y: auto;
+        background: rgba(255,255,255,0.96); border-radius: 16px;
+        padding: 16px 18px 14px; z-index: 4;
+        box-shadow: 0 6px 28px rgba(0,0,0,0.28);
+        font-family: 'Helvetica Neue', Helvetica, Arial, sans-serif;
+        opacity: 0; pointer-events: none;
+        transition: opacity 0.2s, transform 0.2s;
+      }
+      #v360-card.v360-card-visible {
+        opacity: 1; pointer-events: all; transform: translate(-50%, 0);
+      }
+      #v360-card-close {
+        position: absolute; top: 8px; right: 8px;
+        width: 28px; height: 28px; border: none; border-radius: 50%;
+        background: none; color: #8a9aaa; cursor: pointer;
+        display: flex; align-items: center; justify-content: center;
+        -webkit-tap-highlight-color: transparent;
+      }
+      #v360-card-title {
+        margin: 0 28px 6px 0;
+        font-size: 13px; font-weight: 600; letter-spacing: 0.04em;
+        color: #1a2a3a; line-height: 1.35;
+      }
+      #v360-card-text {
+        margin: 0; font-size: 12px; line-height: 1.55; color: #5a6a7a;
+        white-space: pre-line;
+      }
+      #v360-card-img {
+        display: block; width: 100%; margin-top: 10px; border-radius: 10px;
+      }
 
       /* ── Side navigation buttons ── */
       .v360-nav-btn {
@@ -146,13 +440,56 @@ const injectStyles = (() => {
         -webkit-line-clamp: 2;
         -webkit-box-orient: vertical;
       }
-      #v360-counter { display: flex; gap: 7px; }
+      #v360-counter {
+        display: flex; gap: 7px; padding: 8px 10px; margin: -8px 0;
+        background: none; border: none; cursor: pointer; pointer-events: all;
+        -webkit-tap-highlight-color: transparent;
+      }
+      #v360-counter:empty { display: none; }
       .v360-dot {
         width: 6px; height: 6px; border-radius: 50%;
         background: rgba(255,255,255,0.35); transition: background 0.2s;
       }
       .v360-dot.active { background: rgba(255,255,255,0.95); }
 
+      /* ── Thumbnail picker (opened from the dots) ── */
+      #v360-thumbs {
+        display: none; gap: 8px; max-width: 100%; box-sizing: border-box;
+        padding: 2px 14px; overflow-x: auto; pointer-events: all;
+        scroll-snap-type: x proximity; -webkit-overflow-scrolling: touch;
+        scrollbar-width: none;
+      }
+      #v360-thumbs::-webkit-scrollbar { display: none; }
+      #v360-overlay.v360-thumbs-open #v360-thumbs { display: flex; }
+      #v360-overlay.v360-thumbs-open #v360-minimap,
+      #v360-overlay.v360-thumbs-open #v360-audio,
+      #v360-overlay.v360-thumbs-open #v360-video-ctrls,
+      #v360-overlay.v360-thumbs-open #v360-hint { opacity: 0; pointer-events: none; }
+      .v360-thumb {
+        flex: 0 0 auto; width: 112px; padding: 0; border: none;
+        border-radius: 10px; overflow: hidden; cursor: pointer;
+        background: rgba(255,255,255,0.92);
+        box-shadow: 0 2px 12px rgba(0,0,0,0.18);
+        scroll-snap-align: center;
+        -webkit-tap-highlight-color: transparent;
+      }
+      .v360-thumb.active { box-shadow: 0 0 0 2px #4ab8d8, 0 2px 12px rgba(0,0,0,0.18); }
+      .v360-thumb img {
+        display: block; width: 112px; height: 63px; object-fit: cover;
+        background: #1a2a3a;
+      }
+      .v360-thumb span {
+        display: block; padding: 4px 6px;
+        font-family: 'Helvetica Neue', Helvetica, Arial, sans-serif;
+        font-size: 10px; font-weight: 600; color: #4ab8d8; text-align: left;
+        white-space: nowrap; overflow: hidden; text-overflow: ellipsis;
+      }
+      .v360-thumb.v360-thumb-missing img { display: none; }
+      .v360-thumb.v360-thumb-missing span {
+        height: 63px; box-sizing: border-box; padding: 8px 6px;
+        white-space: normal; text-overflow: clip;
+      }
+
       /* ── Explore hint ── */
       #v360-hint {
         position: absolute;
@@ -180,24 +517,152 @@ const injectStyles = (() => {
       }
       @keyframes v360-spin { to { transform: rotate(360deg); } }
 
-      /* ── Gyro badge ── */
-      #v360-gyro-badge {
+      /* ── Video controls ── */
+      #v360-video-ctrls {
+        position: absolute; right: 14px; bottom: 96px;
+        display: flex; gap: 8px; z-index: 2;
+        transition: opacity 0.2s;
+      }
+      #v360-video-ctrls.v360-hidden { opacity: 0; pointer-events: none; }
+      .v360-video-btn {
+        display: flex; align-items: center; justify-content: center;
+        width: 38px; height: 38px; border: none; border-radius: 50%;
+        background: rgba(255,255,255,0.92); color: #4ab8d8; cursor: pointer;
+        box-shadow: 0 2px 12px rgba(0,0,0,0.18);
+        -webkit-tap-highlight-color: transparent;
+      }
+      .v360-video-btn:active { background: rgba(235,248,255,0.98); }
+      .v360-video-btn .v360-icon-alt { display: none; }
+      .v360-video-btn.v360-alt .v360-icon     { display: none; }
+      .v360-video-btn.v360-alt .v360-icon-alt { display: block; }
+
+      /* ── Narration player ── */
+      #v360-audio {
+        position: absolute; right: 14px; bottom: 144px;
+        display: flex; align-items: center; gap: 10px; z-index: 2;
+        background: rgba(255,255,255,0.92); border-radius: 19px;
+        padding: 0 14px 0 0; box-shadow: 0 2px 12px rgba(0,0,0,0.18);
+        transition: opacity 0.2s;
+      }
+      #v360-audio.v360-hidden { opacity: 0; pointer-events: none; }
+      #v360-audio .v360-video-btn { box-shadow: none; background: transparent; }
+      #v360-audio-track {
+        position: relative; width: 96px; height: 18px; cursor: pointer;
+        -webkit-tap-highlight-color: transparent;
+      }
+      #v360-audio-track::before, #v360-audio-fill {
+        content: ''; position: absolute; left: 0; top: 8px; height: 3px;
+        border-radius: 2px;
+      }
+      #v360-audio-track::before { right: 0; background: rgba(74,184,216,0.25); }
+      #v360-audio-fill { width: 0; background: #4ab8d8; }
+
+      /* ── Gyro toggle ── */
+      #v360-gyro-toggle {
         position: absolute; top: 72px; right: 14px;
-        background: rgba(0,0,0,0.45); border-radius: 12px;
+        display: flex; align-items: center; gap: 6px;
+        background: rgba(0,0,0,0.45); border: none; border-radius: 12px;
         padding: 5px 10px; z-index: 2;
         font-family: 'Helvetica Neue', Helvetica, Arial, sans-serif;
         font-size: 10px; letter-spacing: 0.1em; text-transform: uppercase;
-        color: rgba(255,255,255,0.55); pointer-events: none;
+        color: rgba(255,255,255,0.55); cursor: pointer;
+        -webkit-tap-highlight-color: transparent;
+        transition: background 0.15s, color 0.15s;
+      }
+      #v360-gyro-toggle.v360-gyro-on {
+        background: rgba(74,184,216,0.85); color: #fff;
+      }
+
+      /* ── Cardboard (stereo) mode ── */
+      #v360-stereo-toggle {
+        position: absolute; top: 104px; right: 14px;
+        background: rgba(0,0,0,0.45); border: none; border-radius: 12px;
+        padding: 5px 10px; z-index: 2;
+        font-family: 'Helvetica Neue', Helvetica, Arial, sans-serif;
+        font-size: 10px; font-weight: 600; letter-spacing: 0.1em;
+        color: rgba(255,255,255,0.85); cursor: pointer;
+        -webkit-tap-highlight-color: transparent;
+      }
+      #v360-stereo-toggle.v360-hidden { display: none; }
+      #v360-stereo-exit, #v360-stereo-divider, #v360-stereo-rotate { display: none; }
+      #v360-overlay.v360-stereo #v360-topbar,
+      #v360-overlay.v360-stereo #v360-markers,
+      #v360-overlay.v360-stereo #v360-card,
+      #v360-overlay.v360-stereo #v360-gyro-toggle,
+      #v360-overlay.v360-stereo #v360-stereo-toggle,
+      #v360-overlay.v360-stereo .v360-nav-btn,
+      #v360-overlay.v360-stereo #v360-hint,
+      #v360-overlay.v360-stereo #v360-video-ctrls,
+      #v360-overlay.v360-stereo #v360-audio,
+      #v360-overlay.v360-stereo #v360-minimap,
+      #v360-overlay.v360-stereo #v360-bottom { display: none; }
+      #v360-overlay.v360-stereo #v360-stereo-exit {
+        display: flex; align-items: center; justify-content: center;
+        position: absolute; top: 10px; left: 50%; transform: translateX(-50%);
+        width: 32px; height: 32px; border: none; border-radius: 50%;
+        background: rgba(0,0,0,0.55); color: #fff; z-index: 3; cursor: pointer;
+        -webkit-tap-highlight-color: transparent;
+      }
+      #v360-overlay.v360-stereo #v360-stereo-divider {
+        display: block; position: absolute; top: 52px; bottom: 0; left: 50%;
+        width: 2px; margin-left: -1px; background: rgba(255,255,255,0.35);
+        z-index: 2; pointer-events: none;
+      }
+      @media (orientation: portrait) {
+        #v360-overlay.v360-stereo #v360-stereo-rotate {
+          display: block; position: absolute; left: 50%; bottom: 40px;
+          transform: translateX(-50%); white-space: nowrap;
+          background: rgba(0,0,0,0.55); border-radius: 12px; padding: 6px 14px;
+          font-family: 'Helvetica Neue', Helvetica, Arial, sans-serif;
+          font-size: 11px; letter-spacing: 0.08em; text-transform: uppercase;
+          color: #fff; z-index: 3; pointer-events: none;
+        }
       }
 
+      /* ── Manifest debug report ── */
+      #v360-debug {
+        position: fixed; left: 8px; right: 8px; bottom: 8px; max-height: 40vh;
+        display: flex; flex-direction: column; z-index: 100000;
+        background: rgba(10,16,22,0.92); border-radius: 8px;
+        font: 11px/1.4 Menlo, Consolas, monospace; color: #e6e6e6;
+      }
+      #v360-debug-head {
+        display: flex; justify-content: space-between; align-items: center;
+        padding: 6px 10px; border-bottom: 1px solid rgba(255,255,255,0.15);
+      }
+      #v360-debug-close {
+        background: none; border: none; color: #fff; font-size: 18px; cursor: pointer;
+      }
+      #v360-debug ul { margin: 0; padding: 6px 10px; overflow-y: auto; list-style: none; }
+      .v360-debug-error   { color: #ff8a80; }
+      .v360-debug-warning { color: #ffd54f; }
+
+      /* ── Mini-map inset ── */
+      #v360-minimap {
+        position: absolute; left: 14px; bottom: 96px;
+        width: 110px; height: 110px; z-index: 2;
+        border-radius: 12px; overflow: hidden;
+        border: 2px solid rgba(255,255,255,0.85);
+        box-shadow: 0 2px 12px rgba(0,0,0,0.25);
+        pointer-events: none;
+      }
+      .v360-minimap-canvas { display: block; width: 100%; height: 100%; }
+
       /* ── Landscape ── */
       @media (orientation: landscape) {
         #v360-topbar    { padding: 10px 14px 0; }
-        #v360-close-360 { width: 34px; height: 34px; }
+        #v360-close-360, #v360-snapshot { width: 34px; height: 34px; }
+        #v360-place-nav { height: 34px; }
+        .v360-place-btn { width: 28px; height: 28px; }
         .v360-nav-btn   { padding: 8px 12px; font-size: 11px; }
         #v360-bottom    { bottom: 14px; gap: 7px; }
         #v360-title     { font-size: 11px; padding: 5px 16px; }
         #v360-hint      { bottom: 80px; font-size: 9px; }
+        #v360-card      { bottom: 70px; max-height: 60vh; }
+        #v360-video-ctrls { bottom: 14px; }
+        #v360-audio     { bottom: 60px; }
+        #v360-minimap   { bottom: 14px; width: 84px; height: 84px; }
+        .v360-video-btn { width: 32px; height: 32px; }
       }
     `
     document.head.appendChild(s)
@@ -231,43 +696,130 @@ export class Viewer360 {
   private camera:    any = null
   private sphere:    any = null
   private texLoader: any = null
+  private tiled:     TiledPanorama | null = null
+  private videoTex:  any = null
+  private stereo:    StereoRenderer | null = null
+  private transition: TransitionLayer | null = null
   private rafId      = 0
 
   // ── Manifest ──────────────────────────────────────────────────────────────
   private manifest:        Manifest | null = null
   private manifestPromise: Promise<Manifest | null> | null = null
+  private report:          ManifestReport | null = null
+
+  // ── Texture cache (outlives a session) ────────────────────────────────────
+  private texCache: TextureCache
+  private _holdOutgoing = false   // outgoing image pinned until its transition ends
 
-  // ── Texture sliding-window cache ──────────────────────────────────────────
-  private texCache   = new Map<string, any>()
-  private texPending = new Map<string, Promise<any>>()
+  // ── Narration + ambient audio ─────────────────────────────────────────────
+  private narration: NarrationPlayer
+
+  // ── Snapshot ──────────────────────────────────────────────────────────────
+  private _logo: HTMLImageElement | null = null
 
   // ── Per-open navigation state ─────────────────────────────────────────────
   private currentHotspot = ''
   private currentFolder  = ''
   private currentImages:  string[] = []
   private currentIdx     = 0
+  private _loadingTimer  = 0
+  private _loadSeq       = 0   // bumped by every image load and by close
+
+  // ── Sphere markers (links) ────────────────────────────────────────────────
+  private _markers: Array<{ el: HTMLElement; dir: any }> = []
+  private _v3:      any = null
 
   // ── Gyroscope ─────────────────────────────────────────────────────────────
   private _gyroHandler:   ((e: DeviceOrientationEvent) => void) | null = null
   private _resizeHandler: (() => void) | null = null
   private _alpha = 0; private _beta = 90; private _gamma = 0
   private _gyroOk = false
+  private _gyroSeen       = false          // at least one reading received
+  private _heading: number | null = null  // compass heading, ° clockwise from north
+  private _yawOff         = 0              // additive to alpha, degrees
+  private _headingPending = false          // re-aim on the next gyro frame
+  private _absHandler: ((e: DeviceOrientationEvent) => void) | null = null
+  private _gyroAvailable  = false          // permission granted + sensor found
+  private _pitchOff       = 0              // additive to beta (drag in gyro mode)
+  private _aimYaw: number | null = null   // keep this yaw when the gyro resumes
   private _euler:   any = null
   private _q1:      any = null
   private _qOrient: any = null
   private _zee:     any = null
 
-  // ── Touch drag (fallback when no gyro) ───────────────────────────────────
+  // ── Touch drag (look-around; offsets the gyro pose in gyro mode) ─────────
   private _drag = { active: false, lastX: 0, lastY: 0, lon: 0, lat: 0 }
   private _onTouchStart: ((e: TouchEvent) => void) | null = null
   private _onTouchMove:  ((e: TouchEvent) => void) | null = null
   private _onTouchEnd:   (() => void)              | null = null
 
-  constructor(private readonly THREE: any) {}
+  // ── Pinch zoom (both gyro and touch mode) ─────────────────────────────────
+  private _fov   = DEFAULT_FOV
+  private _pinch = { active: false, startSpread: 0, startFov: DEFAULT_FOV }
+  private _onPinchStart: ((e: TouchEvent) => void) | null = null
+  private _onPinchMove:  ((e: TouchEvent) => void) | null = null
+  private _onPinchEnd:   ((e: TouchEvent) => void) | null = null
+
+  // ── Swipe to change image ─────────────────────────────────────────────────
+  private _swipe = {
+    fingers: 0, startT: 0,
+    startX: 0, startY: 0, startSpread: 0,
+    lastX: 0,  lastY: 0,  lastSpread: 0,
+  }
+  private _onSwipeStart: ((e: TouchEvent) => void) | null = null
+  private _onSwipeMove:  ((e: TouchEvent) => void) | null = null
+  private _onSwipeEnd:   ((e: TouchEvent) => void) | null = null
+
+  // ── Desktop mouse + keyboard ──────────────────────────────────────────────
+  private _onMouseDown: ((e: MouseEvent) => void)    | null = null
+  private _onMouseMove: ((e: MouseEvent) => void)    | null = null
+  private _onMouseUp:   (() => void)                 | null = null
+  private _onWheel:     ((e: WheelEvent) => void)    | null = null
+  private _onKeyDown:   ((e: KeyboardEvent) => void) | null = null
+
+  // ── Idle auto-rotate / slideshow ──────────────────────────────────────────
+  private _lastInput   = 0   // performance.now() of the last user input
+  private _lastSlide   = 0   // performance.now() of the last slideshow step
+  private _lastFrame   = 0
+  private _onIdleReset: (() => void) | null = null
+
+  // ── URL / history ─────────────────────────────────────────────────────────
+  private _historyPushed = false
+  private _historyId     = 0   // bumped by every push
+  private _onPopState: (() => void) | null = null
+
+  private opts: Required<Viewer360Options>
+
+  constructor(private readonly THREE: any, opts: Viewer360Options = {}) {
+    this.opts = {
+      registry:        opts.registry        ?? new ExperienceRegistry(),
+      minFov:          opts.minFov          ?? MIN_FOV,
+      maxFov:          opts.maxFov          ?? MAX_FOV,
+      miniMap:         opts.miniMap         ?? null,
+      idleRotateMs:    opts.idleRotateMs    ?? IDLE_ROTATE_MS,
+      idleRotateSpeed: opts.idleRotateSpeed ?? IDLE_ROTATE_SPEED,
+      slideshowMs:     opts.slideshowMs     ?? SLIDESHOW_MS,
+      transition:      opts.transition      ?? 'fade',
+      linkTransition:  opts.linkTransition  ?? 'walk',
+      transitionMs:    opts.transitionMs    ?? TRANSITION_MS,
+      audioAutoplay:   opts.audioAutoplay   ?? true,
+      ambientVolume:   opts.ambientVolume   ?? 0.35,
+      snapshotTitle:   opts.snapshotTitle   ?? true,
+      snapshotLogoUrl: opts.snapshotLogoUrl ?? null,
+      debug:           opts.debug           ?? false,
+    }
+    this.texCache  = createTextureCache()
+    this.narration = new NarrationPlayer({
+      autoplay:      this.opts.audioAutoplay,
+      ambientVolume: this.opts.ambientVolume,
+      onChange:      () => this._updateAudioControls(),
+    })
+  }
 
   // ── Public API ────────────────────────────────────────────────────────────
 
-  async open(hotspotName: string, onClose: () => void): Promise<void> {
+  /** Opens `hotspotName` at image `startIdx` (clamped to the image count). */
+  async open(hotspotName: string, onClose: () => void, startIdx = 0): Promise<void> {
     injectStyles()
 
     // ── iOS CRITICAL: DeviceOrientationEvent.requestPermission() MUST be
@@ -287,31 +839,43 @@ export class Viewer360 {
     const entry = manifest?.[hotspotName]
     this.currentFolder  = entry?.folder  ?? hotspotName
     this.currentImages  = entry?.images  ?? []
-    this.currentIdx     = 0
+    this.currentIdx     = Math.max(0, Math.min(this.currentImages.length - 1, startIdx))
+    this.opts.registry.setCurrent(hotspotName)
 
     if (this.currentImages.length === 0) {
+      console.warn(`[Viewer360] "${hotspotName}" has no images in ${MANIFEST_URL}`)
+      if (this.opts.debug && this.report) this._showDebugReport(this.report)
       onClose()
       return
     }
 
     this._buildOverlay(hotspotName, gyroOk, onClose)
     this._initRenderer()
+    this._resetView()
     this._startResizeHandler()
+    this._gyroAvailable = gyroOk
     if (gyroOk) this._startGyro()
-    else         this._startTouchDrag()
+    this._startTouchDrag()
+    this._startPinch()
+    this._startSwipe()
+    this._startDesktopControls(onClose)
+    this._startIdleWatch()
+    this._startHistory(onClose)
     this._startLoop()
 
-    const tex = await this._fetchTexture(this.currentFolder, this.currentImages[0])
-    this._applySphereTexture(tex)
+    const idx = this.currentIdx
+    const seq = ++this._loadSeq
+    this._pinAround(entry, idx)
+    const tex = await this._fetchSource(entry, idx)
+    if (this._isStale(seq, tex)) return
+    this._applyTexture(tex)
+    this._applyTiles()
     this._hideLoading()
-    this._updateNavButtons()
-    this._updateDots()
-    this._updateTitle()
+    this._refreshImageUi()
     this._hideHintAfterDelay()
 
-    if (this.currentImages.length > 1) {
-      void this._fetchTexture(this.currentFolder, this.currentImages[1])
-    }
+    this._prefetch(entry, idx + 1)
+    this._prefetch(entry, idx - 1)
   }
 
   // ── Manifest ──────────────────────────────────────────────────────────────
@@ -320,13 +884,15 @@ export class Viewer360 {
     if (this.manifest)        return this.manifest
     if (this.manifestPromise) return this.manifestPromise
 
-    this.manifestPromise = fetch(MANIFEST_URL)
-      .then(r => {
-        if (!r.ok) throw new Error(`HTTP ${r.status}`)
-        return r.json() as Promise<Manifest>
-      })
-      .then(m => { this.manifest = m; return m })
-      .catch(() => null)
+    this.manifestPromise = loadManifest(MANIFEST_URL).then(report => {
+      this.report = report
+      for (const issue of report.issues) console.warn(`[Viewer360] manifest: ${formatIssue(issue)}`)
+      if (this.opts.debug && report.issues.length) this._showDebugReport(report)
+      // File-level errors (unreachable, not JSON) leave nothing to show.
+      if (report.issues.some(i => i.hotspot === null && i.level === 'error')) return null
+      this.manifest = report.manifest
+      return report.manifest
+    })
 
     return this.manifestPromise
   }
@@ -334,11 +900,16 @@ export class Viewer360 {
   // ── Label helpers ─────────────────────────────────────────────────────────
 
   private _getCurrentLabel(): string {
+    return this._getLabel(this.currentIdx)
+  }
+
+  /** Manifest label of image `idx`, or its stem without number and extension. */
+  private _getLabel(idx: number): string {
     const entry  = this.manifest?.[this.currentHotspot]
     const labels = entry?.labels
-    if (labels && labels[this.currentIdx]) return labels[this.currentIdx]
-    const stem = this.currentImages[this.currentIdx] ?? this.currentHotspot
-    return stem.replace(/^\d+\.\s*/, '')
+    if (labels && labels[idx]) return labels[idx]
+    const stem = this.currentImages[idx] ?? this.currentHotspot
+    return stem.replace(/^\d+\.\s*/, '').replace(VIDEO_EXT_RE, '')
   }
 
   private _updateTitle(): void {
@@ -352,21 +923,106 @@ export class Viewer360 {
     return `${folder}/${filename}`
   }
 
+  private _projection(entry: HotspotEntry | undefined): Projection {
+    return entry?.projection ?? 'equirect'
+  }
+
   /**
-   * iOS-safe texture loader.
-   * Draws the image through a 2D canvas capped at IOS_MAX_TEX_W × IOS_MAX_TEX_H
-   * before uploading to GPU. This keeps the combined AR terrain + panorama
-   * memory footprint within iOS Safari's per-tab GPU budget.
+   * File (without extension) drawn on the base sphere for image `idx`, the
+   * folder holding the six faces for a cubemap, or the video file. Videos
+   * never use tiles.
    */
-  private _fetchTextureIOS(url: string): Promise<any> {
+  private _sourceName(entry: HotspotEntry | undefined, idx: number): string {
+    const stem = entry?.images[idx] ?? ''
+    if (this._projection(entry) === 'cubemap' || VIDEO_EXT_RE.test(stem)) return stem
+    return entry?.tiles?.[idx] ? `${stem}/${TILE_PREVIEW}` : stem
+  }
+
+  /** Loads image `idx` of `entry` in whatever projection the hotspot uses. */
+  private _fetchSource(entry: HotspotEntry, idx: number): Promise<any> {
+    const name = this._sourceName(entry, idx)
+    if (VIDEO_EXT_RE.test(name)) return this._fetchVideo(`${BASE_PATH}${entry.folder}/${name}`)
+    return this._projection(entry) === 'cubemap'
+      ? this._fetchCube(entry.folder, name)
+      : this._fetchTexture(entry.folder, name)
+  }
+
+  /** Warms the cache for a neighbouring image. Videos are never prefetched. */
+  private _prefetch(entry: HotspotEntry, idx: number): void {
+    if (idx < 0 || idx >= entry.images.length) return
+    if (VIDEO_EXT_RE.test(entry.images[idx])) return
+    void this._fetchSource(entry, idx)
+  }
+
+  /**
+   * Creates a muted, looping, inline <video> and wraps it in a VideoTexture.
+   * Resolves on loadedmetadata — iOS Safari may hold back loadeddata until
+   * playback starts, so muted playback is also started right away (the
+   * texture shows frames as they arrive). Like every failed load, an error
+   * or VIDEO_LOAD_TIMEOUT_MS without metadata resolves null and releases
+   * the element. Videos bypass texCache — only one exists at a time.
+   */
+  private _fetchVideo(url: string): Promise<any> {
+    return new Promise(resolve => {
+      if (!this.THREE) { resolve(null); return }
+      const video = document.createElement('video')
+      video.crossOrigin = 'anonymous'
+      video.loop        = true
+      video.muted       = true
+      video.playsInline = true
+      video.preload     = 'auto'
+      video.setAttribute('playsinline', '')
+      video.setAttribute('webkit-playsinline', '')
+
+      const fail = () => {
+        clearTimeout(timer)
+        video.pause()
+        video.removeAttribute('src')
+        video.load()
+        resolve(null)
+      }
+      const timer = setTimeout(() => {
+        console.warn(`[Viewer360] video timed out: ${url}`)
+        fail()
+      }, VIDEO_LOAD_TIMEOUT_MS)
+
+      video.addEventListener('loadedmetadata', () => {
+        clearTimeout(timer)
+        video.removeEventListener('error', fail)
+        const tex = new this.THREE.VideoTexture(video)
+        tex.colorSpace = this.THREE.SRGBColorSpace ?? this.THREE.sRGBEncoding
+        resolve(tex)
+      }, { once: true })
+      video.addEventListener('error', fail, { once: true })
+      video.src = url
+      video.load()
+      void video.play().catch(() => {})
+    })
+  }
+
+  private _disposeVideo(tex: any): void {
+    const video = tex?.image as HTMLVideoElement | undefined
+    if (video) {
+      video.pause()
+      video.removeAttribute('src')
+      video.load()
+    }
+    tex?.dispose()
+  }
+
+  /**
+   * Loads an image and draws it through a 2D canvas capped at maxW × maxH.
+   * Resolves null on any failure.
+   */
+  private _loadCanvasCapped(url: string, maxW: number, maxH: number): Promise<HTMLCanvasElement | null> {
     return new Promise(resolve => {
       const img = new Image()
       img.crossOrigin = 'anonymous'
       img.onload = () => {
         let w = img.naturalWidth
         let h = img.naturalHeight
-        if (w > IOS_MAX_TEX_W || h > IOS_MAX_TEX_H) {
-          const ratio = Math.min(IOS_MAX_TEX_W / w, IOS_MAX_TEX_H / h)
+        if (w > maxW || h > maxH) {
+          const ratio = Math.min(maxW / w, maxH / h)
           w = Math.floor(w * ratio)
           h = Math.floor(h * ratio)
         }
@@ -375,11 +1031,9 @@ export class Viewer360 {
           canvas.width  = w
           canvas.height = h
           const ctx = canvas.getContext('2d')
-          if (!ctx || !this.THREE) { resolve(null); return }
+          if (!ctx) { resolve(null); return }
           ctx.drawImage(img, 0, 0, w, h)
-          const tex = new this.THREE.CanvasTexture(canvas)
-          tex.colorSpace = this.THREE.SRGBColorSpace ?? this.THREE.sRGBEncoding
-          resolve(tex)
+          resolve(canvas)
         } catch {
           resolve(null)
         }
@@ -389,88 +1043,254 @@ export class Viewer360 {
     })
   }
 
-  private _fetchTexture(folder: string, filename: string): Promise<any> {
-    const key = this._key(folder, filename)
+  /**
+   * iOS-safe texture loader.
+   * Draws the image through a 2D canvas capped at IOS_MAX_TEX_W × IOS_MAX_TEX_H
+   * before uploading to GPU. This keeps the combined AR terrain + panorama
+   * memory footprint within iOS Safari's per-tab GPU budget.
+   */
+  private async _fetchTextureIOS(url: string): Promise<any> {
+    const canvas = await this._loadCanvasCapped(url, IOS_MAX_TEX_W, IOS_MAX_TEX_H)
+    if (!canvas || !this.THREE) return null
+    const tex = new this.THREE.CanvasTexture(canvas)
+    tex.colorSpace = this.THREE.SRGBColorSpace ?? this.THREE.sRGBEncoding
+    return tex
+  }
+
+  /**
+   * Loads the six faces of a cubemap into one THREE.CubeTexture. A single
+   * missing face fails the whole image (resolves null), like a missing JPG.
+   */
+  private _fetchCube(folder: string, stem: string): Promise<any> {
+    const ios     = isIOSDevice()
+    const loadOne = (face: string): Promise<HTMLCanvasElement | HTMLImageElement | null> => {
+      const url = `${BASE_PATH}${folder}/${stem}/${face}${IMAGE_EXT}`
+      if (ios) return this._loadCanvasCapped(url, IOS_MAX_FACE, IOS_MAX_FACE)
+      return new Promise(resolve => {
+        const img = new Image()
+        img.crossOrigin = 'anonymous'
+        img.onload  = () => resolve(img)
+        img.onerror = () => resolve(null)
+        img.src = url
+      })
+    }
 
-    if (this.texCache.has(key))   return Promise.resolve(this.texCache.get(key))
-    if (this.texPending.has(key)) return this.texPending.get(key)!
+    return this.texCache.load(this._key(folder, stem), () =>
+      Promise.all(CUBE_FACES.map(loadOne)).then(faces => {
+        if (!this.THREE || !faces.every(Boolean)) return null
+        const tex = new this.THREE.CubeTexture(faces)
+        tex.colorSpace  = this.THREE.SRGBColorSpace ?? this.THREE.sRGBEncoding
+        tex.needsUpdate = true
+        return tex
+      }),
+    )
+  }
 
+  private _fetchTexture(folder: string, filename: string): Promise<any> {
     const url = `${BASE_PATH}${folder}/${filename}${IMAGE_EXT}`
 
-    // On iOS, use the canvas-based loader that caps dimensions before GPU upload.
-    if (isIOSDevice()) {
-      const promise = this._fetchTextureIOS(url).then(tex => {
-        this.texCache.set(key, tex)
-        this.texPending.delete(key)
-        return tex
+    return this.texCache.load(this._key(folder, filename), () => {
+      // On iOS, use the canvas-based loader that caps dimensions before GPU upload.
+      if (isIOSDevice()) return this._fetchTextureIOS(url)
+
+      // Non-iOS: standard THREE.TextureLoader path.
+      return new Promise<any>(resolve => {
+        if (!this.texLoader) { resolve(null); return }
+
+        this.texLoader.load(
+          url,
+          (tex: any) => {
+            if (!this.texLoader) { tex.dispose(); resolve(null); return }
+            tex.colorSpace = this.THREE.SRGBColorSpace ?? this.THREE.sRGBEncoding
+            resolve(tex)
+          },
+          undefined,
+          () => resolve(null),
+        )
       })
-      this.texPending.set(key, promise)
-      return promise
-    }
-
-    // Non-iOS: standard THREE.TextureLoader path.
-    const promise = new Promise<any>(resolve => {
-      if (!this.texLoader) { resolve(null); return }
-
-      this.texLoader.load(
-        url,
-        (tex: any) => {
-          if (!this.texLoader) { tex.dispose(); resolve(null); return }
-          tex.colorSpace = this.THREE.SRGBColorSpace ?? this.THREE.sRGBEncoding
-          this.texCache.set(key, tex)
-          this.texPending.delete(key)
-          resolve(tex)
-        },
-        undefined,
-        () => {
-          this.texCache.set(key, null)
-          this.texPending.delete(key)
-          resolve(null)
-        },
-      )
     })
+  }
 
-    this.texPending.set(key, promise)
-    return promise
+  /**
+   * Pins the current image and its neighbours in the texture cache, plus
+   * `extra` keys; anything else may be evicted once the cache is over budget.
+   */
+  private _pinAround(entry: HotspotEntry | undefined, centerIdx: number, ...extra: string[]): void {
+    if (!entry) return
+    this.texCache.pin([
+      ...[centerIdx - 1, centerIdx, centerIdx + 1]
+        .filter(i => i >= 0 && i < entry.images.length)
+        .map(i => this._key(entry.folder, this._sourceName(entry, i))),
+      ...extra,
+    ])
   }
 
-  private _evictOutside(folder: string, centerIdx: number): void {
-    const keep = new Set(
-      [centerIdx - 1, centerIdx, centerIdx + 1]
-        .filter(i => i >= 0 && i < this.currentImages.length)
-        .map(i => this._key(folder, this.currentImages[i])),
-    )
-    for (const [key, tex] of this.texCache) {
-      if (!keep.has(key) && tex) {
-        tex.dispose()
-        this.texCache.delete(key)
-      }
-    }
+  /** Cache key of the image on screen. */
+  private _currentKey(): string {
+    const entry = this.manifest?.[this.currentHotspot]
+    return this._key(this.currentFolder, this._sourceName(entry, this.currentIdx))
+  }
+
+  /**
+   * Re-pins around the new image once the transition layer no longer draws
+   * the outgoing one. Called every frame.
+   */
+  private _releaseOutgoing(): void {
+    if (!this._holdOutgoing || this.transition?.active) return
+    this._holdOutgoing = false
+    this._pinAround(this.manifest?.[this.currentHotspot], this.currentIdx)
   }
 
   // ── Navigation ────────────────────────────────────────────────────────────
 
-  private async _navigateTo(newIdx: number): Promise<void> {
-    const { currentFolder: folder, currentImages: imgs } = this
+  private async _navigateTo(newIdx: number, style = this.opts.transition): Promise<void> {
+    const { currentImages: imgs } = this
     if (newIdx < 0 || newIdx >= imgs.length) return
+    const entry = this.manifest?.[this.currentHotspot]
 
+    const seq = ++this._loadSeq
     this._showLoading()
 
-    const tex = await this._fetchTexture(folder, imgs[newIdx])
-    this._applySphereTexture(tex)
+    const tex = await this._fetchSource(entry, newIdx)
+    if (this._isStale(seq, tex)) return
+    const outgoing = this._currentKey()
+    this._beginTransition(style)
+    this._applyTexture(tex)
     this.currentIdx = newIdx
+    this._applyTiles()
 
     this._hideLoading()
-    this._updateNavButtons()
-    this._updateDots()
-    this._updateTitle()
+    this._refreshImageUi()
+
+    this._resetView()
+
+    this._pinAround(entry, newIdx, outgoing)
+    this._holdOutgoing = true
+    this._prefetch(entry, newIdx + 1)
+    this._prefetch(entry, newIdx - 1)
+  }
+
+  /**
+   * Looks through the registry in `dir` for the next hotspot with at least one
+   * image (entries like POFABBRO have none) and switches to it. The registry
+   * itself only moves once the switch completes, in _switchHotspot.
+   */
+  private async _stepPlace(dir: 1 | -1): Promise<void> {
+    const { registry } = this.opts
+    for (let i = 1; i < registry.getCount(); i++) {
+      const name = registry.peek(dir * i)
+      if (!name || name === this.currentHotspot) return
+      if (this.manifest?.[name]?.images.length) {
+        await this._switchHotspot(name)
+        return
+      }
+    }
+  }
+
+  private async _switchHotspot(name: string, startIdx = 0, style = this.opts.transition): Promise<void> {
+    const entry = this.manifest?.[name]
+    if (!entry || entry.images.length === 0) return
+    const idx = Math.max(0, Math.min(entry.images.length - 1, startIdx))
+
+    const seq = ++this._loadSeq
+    this._showLoading()
+
+    const tex = await this._fetchSource(entry, idx)
+    if (this._isStale(seq, tex)) return
+    const outgoing = this._currentKey()
+
+    this.opts.registry.setCurrent(name)
+    this.currentHotspot = name
+    this.currentFolder  = entry.folder
+    this.currentImages  = entry.images
+    this.currentIdx     = idx
+    this._beginTransition(style)
+    this._applyTexture(tex)
+    this._applyTiles()
+
+    this._hideLoading()
+    this._toggleThumbs(false)
+    this._renderDots()
+    this._refreshImageUi()
+
+    this._resetView()
+
+    this._pinAround(entry, idx, outgoing)
+    this._holdOutgoing = true
+    this._prefetch(entry, idx + 1)
+    this._prefetch(entry, idx - 1)
+  }
 
-    this._drag.lon = 0; this._drag.lat = 0
+  /**
+   * True when the viewer closed or a newer load started while this one was in
+   * flight. A video fetched for nothing is released here — videos bypass
+   * texCache, so nothing else would.
+   */
+  private _isStale(seq: number, tex: any): boolean {
+    if (this.overlay && seq === this._loadSeq) return false
+    if (tex?.isVideoTexture) this._disposeVideo(tex)
+    return true
+  }
+
+  private async _followLink(link: PanoLink): Promise<void> {
+    if (link.hotspot && link.hotspot !== this.currentHotspot) {
+      await this._switchHotspot(link.hotspot, link.image ?? 0, this.opts.linkTransition)
+    } else if (link.image !== undefined && link.image !== this.currentIdx) {
+      await this._navigateTo(link.image, this.opts.linkTransition)
+    }
+  }
+
+  /**
+   * Hands the panorama on screen to the transition layer just before the
+   * next one is applied. Cubemaps and videos can't be shown on the layer, so
+   * those fade in from black.
+   */
+  private _beginTransition(style: TransitionStyle): void {
+    if (!this.transition || !this.camera) return
+    const outgoing = this.sphere?.visible && !this.videoTex ? this.sphere.material.map : null
+    this.transition.begin(outgoing, this.camera, style, this.opts.transitionMs)
+  }
+
+  /**
+   * Shows a cubemap as the scene background, anything else on the sphere.
+   * Starts a video texture and disposes the previous one.
+   */
+  private _applyTexture(texture: any): void {
+    if (!this.scene || !this.sphere) return
+    const cube = !!texture?.isCubeTexture
+    this.scene.background = cube ? texture : null
+    this.sphere.visible   = !cube
+    this._applySphereTexture(cube ? null : texture)
+
+    if (this.videoTex && this.videoTex !== texture) this._disposeVideo(this.videoTex)
+    this.videoTex = texture?.isVideoTexture ? texture : null
+    if (this.videoTex) void this.videoTex.image.play().catch(() => {})
+    this._updateVideoControls()
+  }
 
-    if (newIdx + 1 < imgs.length) void this._fetchTexture(folder, imgs[newIdx + 1])
-    if (newIdx - 1 >= 0)          void this._fetchTexture(folder, imgs[newIdx - 1])
+  /** Initial heading, pitch and north alignment of the current image. */
+  private _imageView(): { yaw: number; pitch: number; north: number | null } {
+    const entry = this.manifest?.[this.currentHotspot]
+    const i     = this.currentIdx
+    return {
+      yaw:   entry?.initialYaw?.[i]   ?? 0,
+      pitch: entry?.initialPitch?.[i] ?? 0,
+      north: entry?.northOffset?.[i]  ?? null,
+    }
+  }
 
-    setTimeout(() => this._evictOutside(folder, newIdx), 600)
+  /**
+   * Back to the image's initial heading and default zoom after an image
+   * change. Touch mode applies it directly; gyro mode re-aims on the next
+   * frame (see _aimGyro).
+   */
+  private _resetView(): void {
+    const { yaw, pitch } = this._imageView()
+    this._drag.lon = yaw
+    this._drag.lat = Math.max(-85, Math.min(85, pitch))
+    this._pitchOff = 0
+    this._headingPending = true
+    this._setFov(DEFAULT_FOV)
   }
 
   private _applySphereTexture(texture: any): void {
@@ -480,18 +1300,48 @@ export class Viewer360 {
     this.sphere.material.needsUpdate = true
   }
 
+  /** Replaces the tile layer with the current image's pyramid, if it has one. */
+  private _applyTiles(): void {
+    this.tiled?.dispose()
+    this.tiled = null
+
+    const entry = this.manifest?.[this.currentHotspot]
+    const spec  = entry?.tiles?.[this.currentIdx]
+    const stem  = this.currentImages[this.currentIdx]
+    if (!spec || !this.scene || this._projection(entry) !== 'equirect') return
+    if (VIDEO_EXT_RE.test(stem)) return   // the manifest check warns tiles are ignored
+
+    const budget = isIOSDevice() ? IOS_TILE_BUDGET_BYTES : TILE_BUDGET_BYTES
+    this.tiled = new TiledPanorama(
+      this.THREE, this.scene, `${BASE_PATH}${this.currentFolder}/${stem}`, spec, budget,
+    )
+  }
+
   // ── UI ────────────────────────────────────────────────────────────────────
 
   private _buildOverlay(
     hotspotName: string, gyroOk: boolean, onClose: () => void,
   ): void {
-    const count    = this.currentImages.length
-    const hintText = gyroOk ? 'Move phone to explore' : 'Drag to explore'
+    const hintText = gyroOk ? 'Move phone or drag to explore' : 'Drag to explore'
+    const places   = this.opts.registry.getCount()
 
     const div = document.createElement('div')
     div.id = 'v360-overlay'
     div.innerHTML = `
       <canvas id="v360-canvas"></canvas>
+      <div id="v360-markers"></div>
+      <div id="v360-card">
+        <button id="v360-card-close" aria-label="Close">
+          <svg width="14" height="14" viewBox="0 0 24 24" fill="none"
+               stroke="currentColor" stroke-width="2.6"
+               stroke-linecap="round" stroke-linejoin="round">
+            <line x1="18" y1="6"  x2="6"  y2="18"/>
+            <line x1="6"  y1="6"  x2="18" y2="18"/>
+          </svg>
+        </button>
+        <p id="v360-card-title"></p>
+        <p id="v360-card-text"></p>
+      </div>
       <div id="v360-loading"><div class="v360-spinner"></div></div>
 
       <div id="v360-topbar">
@@ -503,40 +1353,119 @@ export class Viewer360 {
             <line x1="6"  y1="6"  x2="18" y2="18"/>
           </svg>
         </button>
+        <button id="v360-snapshot" aria-label="Save or share this view">
+          <svg width="18" height="18" viewBox="0 0 24 24" fill="none"
+               stroke="currentColor" stroke-width="2.2"
+               stroke-linecap="round" stroke-linejoin="round">
+            <path d="M4 8h3l2-3h6l2 3h3v11H4z"/>
+            <circle cx="12" cy="13" r="3.5"/>
+          </svg>
+        </button>
+        ${places > 1 ? `
+          <div id="v360-place-nav">
+            <button class="v360-place-btn" id="v360-place-prev" aria-label="Previous place">
+              <svg width="14" height="14" viewBox="0 0 24 24" fill="none"
+                   stroke="currentColor" stroke-width="2.6"
+                   stroke-linecap="round" stroke-linejoin="round">
+                <polyline points="15 18 9 12 15 6"/>
+              </svg>
+            </button>
+            <span id="v360-place-count"></span>
+            <button class="v360-place-btn" id="v360-place-next" aria-label="Next place">
+              <svg width="14" height="14" viewBox="0 0 24 24" fill="none"
+                   stroke="currentColor" stroke-width="2.6"
+                   stroke-linecap="round" stroke-linejoin="round">
+                <polyline points="9 18 15 12 9 6"/>
+              </svg>
+            </button>
+          </div>
+        ` : ''}
       </div>
 
-      ${!gyroOk ? `<div id="v360-gyro-badge">Touch mode</div>` : ''}
+      <button id="v360-gyro-toggle" aria-label="Toggle gyroscope"></button>
+      <button id="v360-stereo-toggle" class="v360-hidden" aria-label="Cardboard mode">VR</button>
+      <button id="v360-stereo-exit" aria-label="Exit cardboard mode">
+        <svg width="14" height="14" viewBox="0 0 24 24" fill="none"
+             stroke="currentColor" stroke-width="2.6" stroke-linecap="round">
+          <line x1="6" y1="6" x2="18" y2="18"/>
+          <line x1="18" y1="6" x2="6" y2="18"/>
+        </svg>
+      </button>
+      <div id="v360-stereo-divider"></div>
+      <span id="v360-stereo-rotate">Turn your phone sideways</span>
+
+      <button class="v360-nav-btn v360-nav-hidden" id="v360-prev-btn">
+        <svg width="14" height="14" viewBox="0 0 24 24" fill="none"
+             stroke="currentColor" stroke-width="2.6"
+             stroke-linecap="round" stroke-linejoin="round">
+          <polyline points="15 18 9 12 15 6"/>
+        </svg>
+        Previous
+      </button>
+      <button class="v360-nav-btn v360-nav-hidden" id="v360-next-btn">
+        Next
+        <svg width="14" height="14" viewBox="0 0 24 24" fill="none"
+             stroke="currentColor" stroke-width="2.6"
+             stroke-linecap="round" stroke-linejoin="round">
+          <polyline points="9 18 15 12 9 6"/>
+        </svg>
+      </button>
 
-      ${count > 1 ? `
-        <button class="v360-nav-btn v360-nav-hidden" id="v360-prev-btn">
-          <svg width="14" height="14" viewBox="0 0 24 24" fill="none"
-               stroke="currentColor" stroke-width="2.6"
-               stroke-linecap="round" stroke-linejoin="round">
-            <polyline points="15 18 9 12 15 6"/>
+      <span id="v360-hint">${hintText}</span>
+
+      <div id="v360-video-ctrls" class="v360-hidden">
+        <button class="v360-video-btn" id="v360-video-play" aria-label="Play / pause">
+          <svg class="v360-icon" width="14" height="14" viewBox="0 0 24 24"
+               fill="currentColor" stroke="none">
+            <rect x="6" y="5" width="4" height="14" rx="1"/>
+            <rect x="14" y="5" width="4" height="14" rx="1"/>
+          </svg>
+          <svg class="v360-icon-alt" width="14" height="14" viewBox="0 0 24 24"
+               fill="currentColor" stroke="none">
+            <polygon points="7 4 20 12 7 20 7 4"/>
           </svg>
-          Previous
         </button>
-        <button class="v360-nav-btn" id="v360-next-btn">
-          Next
-          <svg width="14" height="14" viewBox="0 0 24 24" fill="none"
-               stroke="currentColor" stroke-width="2.6"
+        <button class="v360-video-btn v360-alt" id="v360-video-mute" aria-label="Mute / unmute">
+          <svg class="v360-icon" width="16" height="16" viewBox="0 0 24 24" fill="none"
+               stroke="currentColor" stroke-width="2.2"
+               stroke-linecap="round" stroke-linejoin="round">
+            <polygon points="11 5 6 9 2 9 2 15 6 15 11 19 11 5" fill="currentColor"/>
+            <path d="M15.5 8.5a5 5 0 0 1 0 7"/>
+            <path d="M18.5 5.5a9 9 0 0 1 0 13"/>
+          </svg>
+          <svg class="v360-icon-alt" width="16" height="16" viewBox="0 0 24 24" fill="none"
+               stroke="currentColor" stroke-width="2.2"
                stroke-linecap="round" stroke-linejoin="round">
-            <polyline points="9 18 15 12 9 6"/>
+            <polygon points="11 5 6 9 2 9 2 15 6 15 11 19 11 5" fill="currentColor"/>
+            <line x1="22" y1="9"  x2="16" y2="15"/>
+            <line x1="16" y1="9"  x2="22" y2="15"/>
           </svg>
         </button>
-      ` : ''}
+      </div>
 
-      <span id="v360-hint">${hintText}</span>
+      <div id="v360-audio" class="v360-hidden">
+        <button class="v360-video-btn" id="v360-audio-play" aria-label="Play / pause narration">
+          <svg class="v360-icon" width="14" height="14" viewBox="0 0 24 24"
+               fill="currentColor" stroke="none">
+            <rect x="6" y="5" width="4" height="14" rx="1"/>
+            <rect x="14" y="5" width="4" height="14" rx="1"/>
+          </svg>
+          <svg class="v360-icon-alt" width="14" height="14" viewBox="0 0 24 24"
+               fill="currentColor" stroke="none">
+            <polygon points="7 4 20 12 7 20 7 4"/>
+          </svg>
+        </button>
+        <div id="v360-audio-track" role="slider" aria-label="Narration position">
+          <div id="v360-audio-fill"></div>
+        </div>
+      </div>
+
+      ${this.opts.miniMap?.available ? '<div id="v360-minimap"></div>' : ''}
 
       <div id="v360-bottom">
+        <div id="v360-thumbs"></div>
         <span id="v360-title"></span>
-        ${count > 1 ? `
-          <div id="v360-counter">
-            ${Array.from({length: count}, (_, i) =>
-              `<div class="v360-dot${i === 0 ? ' active' : ''}"></div>`,
-            ).join('')}
-          </div>
-        ` : ''}
+        <button id="v360-counter" aria-label="Show all images" aria-expanded="false"></button>
       </div>
     `
 
@@ -544,37 +1473,321 @@ export class Viewer360 {
     this.overlay = div
 
     div.querySelector('#v360-close-360')!.addEventListener('click', () => this._close(onClose))
+    div.querySelector('#v360-snapshot')!.addEventListener('click', () => this._snapshot())
+    this._loadLogo()
+    div.querySelector('#v360-card-close')!.addEventListener('click', () => this._hideCard())
+    div.querySelector('#v360-gyro-toggle')!.addEventListener('click', () => {
+      void this._toggleGyro()
+    })
+    this._updateGyroToggle()
+    div.querySelector('#v360-stereo-toggle')!.addEventListener('click', () => {
+      void this._enterStereo()
+    })
+    div.querySelector('#v360-stereo-exit')!.addEventListener('click', () => this._exitStereo())
+    div.querySelector('#v360-video-play')!.addEventListener('click', () => {
+      const video = this.videoTex?.image as HTMLVideoElement | undefined
+      if (!video) return
+      if (video.paused) void video.play().catch(() => {})
+      else              video.pause()
+      this._updateVideoControls()
+    })
+    div.querySelector('#v360-video-mute')!.addEventListener('click', () => {
+      const video = this.videoTex?.image as HTMLVideoElement | undefined
+      if (!video) return
+      video.muted = !video.muted
+      this._updateVideoControls()
+    })
+
+    div.querySelector('#v360-audio-play')!.addEventListener('click', () => this.narration.toggle())
+    div.querySelector('#v360-audio-track')!.addEventListener('click', (e: Event) => {
+      const rect = (e.currentTarget as HTMLElement).getBoundingClientRect()
+      this.narration.seek(((e as MouseEvent).clientX - rect.left) / rect.width)
+    })
+
+    div.querySelector('#v360-counter')!.addEventListener('click', () => this._toggleThumbs())
+
+    div.querySelector('#v360-prev-btn')!.addEventListener('click', async () => {
+      await this._navigateTo(this.currentIdx - 1)
+    })
+    div.querySelector('#v360-next-btn')!.addEventListener('click', async () => {
+      await this._navigateTo(this.currentIdx + 1)
+    })
 
-    if (count > 1) {
-      div.querySelector('#v360-prev-btn')!.addEventListener('click', async () => {
-        await this._navigateTo(this.currentIdx - 1)
+    if (places > 1) {
+      div.querySelector('#v360-place-prev')!.addEventListener('click', async () => {
+        await this._stepPlace(-1)
       })
-      div.querySelector('#v360-next-btn')!.addEventListener('click', async () => {
-        await this._navigateTo(this.currentIdx + 1)
+      div.querySelector('#v360-place-next')!.addEventListener('click', async () => {
+        await this._stepPlace(1)
       })
     }
 
+    const mapEl = div.querySelector<HTMLElement>('#v360-minimap')
+    if (mapEl) this.opts.miniMap?.mount(mapEl)
+
+    this._renderDots()
+
     requestAnimationFrame(() => div.classList.add('v360-visible'))
   }
 
+  /** Syncs every per-image UI element after the current image changes. */
+  private _refreshImageUi(): void {
+    this._updateNavButtons()
+    this._updateDots()
+    this._updatePlaceNav()
+    this._updateTitle()
+    this._renderMarkers()
+    this.opts.miniMap?.setLocation(this.currentHotspot)
+    this._updateAudio()
+    this._updateUrl()
+  }
+
+  /**
+   * Points the player at the current image's narration and the hotspot's
+   * ambient loop (paths relative to the hotspot folder). Unchanged tracks keep
+   * playing; replaced ones fade out.
+   */
+  private _updateAudio(): void {
+    const entry = this.manifest?.[this.currentHotspot]
+    const url   = (src: string | null) => src ? `${BASE_PATH}${this.currentFolder}/${src}` : null
+    this.narration.setAmbient(url(pickAudio(entry?.ambient)))
+    this.narration.setNarration(url(pickAudio(entry?.audio?.[this.currentIdx])))
+  }
+
+  /** Shows the narration player when the image has audio and syncs its state. */
+  private _updateAudioControls(): void {
+    const ctrls = this.overlay?.querySelector('#v360-audio')
+    if (!ctrls) return
+    const { narration } = this
+    ctrls.classList.toggle('v360-hidden', !narration.hasNarration)
+    ctrls.querySelector('#v360-audio-play')!.classList.toggle('v360-alt', !narration.playing)
+    const pct = (narration.progress * 100).toFixed(1)
+    ctrls.querySelector<HTMLElement>('#v360-audio-fill')!.style.width = `${pct}%`
+    ctrls.querySelector('#v360-audio-track')!.setAttribute('aria-valuenow', pct)
+  }
+
+  /** Shows the video controls for a video image and syncs their icons. */
+  private _updateVideoControls(): void {
+    const ctrls = this.overlay?.querySelector('#v360-video-ctrls')
+    if (!ctrls) return
+    const video = this.videoTex?.image as HTMLVideoElement | undefined
+    ctrls.classList.toggle('v360-hidden', !video)
+    if (!video) return
+    ctrls.querySelector('#v360-video-play')!.classList.toggle('v360-alt', video.paused)
+    ctrls.querySelector('#v360-video-mute')!.classList.toggle('v360-alt', video.muted)
+  }
+
   private _updateNavButtons(): void {
     const prev = this.overlay?.querySelector('#v360-prev-btn')
     const next = this.overlay?.querySelector('#v360-next-btn')
     if (prev) prev.classList.toggle('v360-nav-hidden', this.currentIdx === 0)
-    if (next) next.classList.toggle('v360-nav-hidden', this.currentIdx === this.currentImages.length - 1)
+    if (next) next.classList.toggle('v360-nav-hidden', this.currentIdx >= this.currentImages.length - 1)
+  }
+
+  /** Rebuilds the dots for the current hotspot — one per image, none if single. */
+  private _renderDots(): void {
+    const counter = this.overlay?.querySelector<HTMLElement>('#v360-counter')
+    if (!counter) return
+    const count = this.currentImages.length
+    counter.innerHTML = count > 1
+      ? Array.from({length: count}, (_, i) =>
+          `<div class="v360-dot${i === this.currentIdx ? ' active' : ''}"></div>`,
+        ).join('')
+      : ''
+  }
+
+  private _updatePlaceNav(): void {
+    const el = this.overlay?.querySelector<HTMLElement>('#v360-place-count')
+    const { registry } = this.opts
+    if (el) el.textContent = `${registry.idx + 1} / ${registry.getCount()}`
   }
 
   private _updateDots(): void {
-    const dots = this.overlay?.querySelectorAll('.v360-dot')
-    if (!dots) return
-    dots.forEach((d, i) => d.classList.toggle('active', i === this.currentIdx))
+    for (const sel of ['.v360-dot', '.v360-thumb']) {
+      this.overlay?.querySelectorAll(sel)
+        .forEach((d, i) => d.classList.toggle('active', i === this.currentIdx))
+    }
+  }
+
+  // ── Thumbnail picker ──────────────────────────────────────────────────────
+
+  /** Opens / closes the thumbnail strip above the title. */
+  private _toggleThumbs(open = !this.overlay?.classList.contains('v360-thumbs-open')): void {
+    const ov = this.overlay
+    if (!ov) return
+    if (open && this.currentImages.length < 2) return
+    if (open) this._renderThumbs()
+    ov.classList.toggle('v360-thumbs-open', open)
+    ov.querySelector('#v360-counter')?.setAttribute('aria-expanded', String(open))
+    if (open) ov.querySelector('.v360-thumb.active')?.scrollIntoView({ inline: 'center', block: 'nearest' })
+  }
+
+  /**
+   * Builds the strip for the current hotspot on first open. Thumbnails are
+   * small pre-generated JPGs, never the panoramas; a missing one leaves a
+   * label-only tile.
+   */
+  private _renderThumbs(): void {
+    const strip = this.overlay?.querySelector<HTMLElement>('#v360-thumbs')
+    if (!strip || strip.dataset.hotspot === this.currentHotspot) return
+    strip.dataset.hotspot = this.currentHotspot
+    strip.innerHTML = ''
+    this.currentImages.forEach((stem, i) => {
+      const btn = document.createElement('button')
+      btn.className = 'v360-thumb'
+      btn.classList.toggle('active', i === this.currentIdx)
+
+      const img = document.createElement('img')
+      img.alt     = ''
+      img.loading = 'lazy'
+      img.addEventListener('error', () => btn.classList.add('v360-thumb-missing'), { once: true })
+      img.src = `${BASE_PATH}${this.currentFolder}/${THUMB_DIR}/${stem.replace(VIDEO_EXT_RE, '')}${IMAGE_EXT}`
+
+      const label = document.createElement('span')
+      label.textContent = this._getLabel(i)
+      btn.append(img, label)
+
+      btn.addEventListener('click', () => {
+        this._toggleThumbs(false)
+        if (i !== this.currentIdx) void this._navigateTo(i)
+      })
+      strip.appendChild(btn)
+    })
+  }
+
+  // ── Sphere markers ────────────────────────────────────────────────────────
+
+  /** Unit direction on the sphere for a yaw/pitch pair (see header). */
+  private _dirFromYawPitch(yaw: number, pitch: number): any {
+    const { MathUtils } = this.THREE
+    const lon = MathUtils.degToRad(yaw)
+    const lat = MathUtils.degToRad(pitch)
+    return new this.THREE.Vector3(
+      Math.cos(lat) * Math.cos(lon),
+      Math.sin(lat),
+      Math.cos(lat) * Math.sin(lon),
+    )
+  }
+
+  /** Recreates the marker elements for the current image. */
+  private _renderMarkers(): void {
+    const layer = this.overlay?.querySelector<HTMLElement>('#v360-markers')
+    if (!layer) return
+    layer.innerHTML = ''
+    this._markers = []
+    this._hideCard()
+
+    const entry = this.manifest?.[this.currentHotspot]
+    const links = entry?.links?.[this.currentIdx] ?? []
+    for (const link of links) {
+      const btn = document.createElement('button')
+      btn.className = 'v360-marker v360-link'
+      btn.setAttribute('aria-label', link.label ?? 'Go')
+      btn.innerHTML = `
+        <span class="v360-link-arrow">
+          <svg width="18" height="18" viewBox="0 0 24 24" fill="none"
+               stroke="currentColor" stroke-width="2.6"
+               stroke-linecap="round" stroke-linejoin="round">
+            <polyline points="18 15 12 9 6 15"/>
+          </svg>
+        </span>
+        ${link.label ? `<span class="v360-link-label"></span>` : ''}
+      `
+      if (link.label) btn.querySelector('.v360-link-label')!.textContent = link.label
+      btn.addEventListener('click', () => { void this._followLink(link) })
+      this._addMarker(layer, btn, link.yaw, link.pitch ?? 0)
+    }
+
+    const notes = entry?.annotations?.[this.currentIdx] ?? []
+    for (const note of notes) {
+      const btn = document.createElement('button')
+      btn.className = 'v360-marker v360-note'
+      btn.setAttribute('aria-label', note.title)
+      btn.textContent = 'i'
+      btn.addEventListener('click', () => {
+        const wasActive = btn.classList.contains('active')
+        this._hideCard()
+        if (!wasActive) {
+          btn.classList.add('active')
+          this._showCard(note)
+        }
+      })
+      this._addMarker(layer, btn, note.yaw, note.pitch ?? 0)
+    }
+  }
+
+  private _showCard(note: PanoAnnotation): void {
+    const card = this.overlay?.querySelector<HTMLElement>('#v360-card')
+    if (!card) return
+    card.querySelector('#v360-card-title')!.textContent = note.title
+    card.querySelector('#v360-card-text')!.textContent  = note.text ?? ''
+    card.querySelector('#v360-card-img')?.remove()
+    if (note.image) {
+      const img = document.createElement('img')
+      img.id  = 'v360-card-img'
+      img.alt = note.title
+      img.src = `${BASE_PATH}${this.currentFolder}/${note.image}`
+      card.appendChild(img)
+    }
+    card.classList.add('v360-card-visible')
+  }
+
+  private _hideCard(): void {
+    this.overlay?.querySelector('#v360-card')?.classList.remove('v360-card-visible')
+    this.overlay?.querySelectorAll('.v360-note.active')
+      .forEach(el => el.classList.remove('active'))
+  }
+
+  private _addMarker(layer: HTMLElement, el: HTMLElement, yaw: number, pitch: number): void {
+    el.style.display = 'none'   // positioned on the next frame
+    layer.appendChild(el)
+    this._markers.push({ el, dir: this._dirFromYawPitch(yaw, pitch) })
+  }
+
+  /**
+   * Feeds the camera's compass heading (yaw − northOffset) and horizontal FOV
+   * to the mini-map. Without a northOffset the heading is taken relative to
+   * the image's initial yaw and the map draws the cone as unreferenced.
+   */
+  private _updateMiniMap(): void {
+    const map = this.opts.miniMap
+    if (!map || !this.camera) return
+    const { north, yaw } = this._imageView()
+    const ref     = north ?? yaw
+    const heading = ((this._cameraYawPitch().yaw - ref) % 360 + 360) % 360
+    const vHalf = this.camera.fov / 2 * Math.PI / 180
+    const hFov  = 2 * Math.atan(Math.tan(vHalf) * this.camera.aspect) * 180 / Math.PI
+    map.setView(heading, hFov, north !== null)
+  }
+
+  /** Projects every marker through the camera. Called once per frame. */
+  private _updateMarkers(): void {
+    if (!this._markers.length || !this.camera) return
+    const w = window.innerWidth
+    const h = window.innerHeight
+    for (const { el, dir } of this._markers) {
+      const p = this._v3.copy(dir).multiplyScalar(100).project(this.camera)
+      // z > 1 → behind the camera
+      if (p.z > 1 || Math.abs(p.x) > 1.2 || Math.abs(p.y) > 1.2) {
+        el.style.display = 'none'
+        continue
+      }
+      const x = ( p.x * 0.5 + 0.5) * w
+      const y = (-p.y * 0.5 + 0.5) * h
+      el.style.display   = ''
+      el.style.transform = `translate(${x.toFixed(1)}px, ${y.toFixed(1)}px) translate(-50%, -50%)`
+    }
   }
 
   private _showLoading(): void {
-    this.overlay?.querySelector('#v360-loading')?.classList.remove('v360-hidden')
+    clearTimeout(this._loadingTimer)
+    this._loadingTimer = window.setTimeout(() => {
+      this.overlay?.querySelector('#v360-loading')?.classList.remove('v360-hidden')
+    }, LOADING_DELAY_MS)
   }
 
   private _hideLoading(): void {
+    clearTimeout(this._loadingTimer)
     this.overlay?.querySelector('#v360-loading')?.classList.add('v360-hidden')
   }
 
@@ -584,22 +1797,153 @@ export class Viewer360 {
     }, 3500)
   }
 
+  // ── Snapshot ──────────────────────────────────────────────────────────────
+
+  /**
+   * Renders the current view and shares it (or downloads it). Everything up to
+   * navigator.share() is synchronous — iOS only allows sharing while the tap
+   * that triggered it is still being handled.
+   */
+  private _snapshot(): void {
+    const canvas = this._captureView()
+    if (!canvas) return
+    const name = `${this.currentHotspot}-${this.currentIdx + 1}`.replace(/[^\w-]+/g, '_') + '.jpg'
+    const blob = dataUrlToBlob(canvas.toDataURL('image/jpeg', 0.92))
+    const file = new File([blob], name, { type: 'image/jpeg' })
+
+    if (navigator.canShare?.({ files: [file] })) {
+      navigator.share({ files: [file], title: this._getCurrentLabel() }).catch((err: DOMException) => {
+        if (err.name !== 'AbortError') this._download(blob, name)
+      })
+    } else {
+      this._download(blob, name)
+    }
+  }
+
+  /**
+   * Draws a fresh frame of the panorama (no DOM markers or controls) onto a
+   * 2D canvas and stamps the title and logo. The WebGL canvas is copied right
+   * after render(), before the browser may clear it.
+   */
+  private _captureView(): HTMLCanvasElement | null {
+    if (!this.renderer || !this.scene || !this.camera) return null
+    this.renderer.render(this.scene, this.camera)
+    const src = this.renderer.domElement as HTMLCanvasElement
+    const out = document.createElement('canvas')
+    out.width  = src.width
+    out.height = src.height
+    const ctx  = out.getContext('2d')
+    if (!ctx) return null
+    ctx.drawImage(src, 0, 0)
+
+    const { width: w, height: h } = out
+    const pad  = Math.round(Math.min(w, h) * 0.04)
+    const band = Math.round(h * 0.16)
+    const grad = ctx.createLinearGradient(0, h - band, 0, h)
+    grad.addColorStop(0, 'rgba(0,0,0,0)')
+    grad.addColorStop(1, 'rgba(0,0,0,0.55)')
+    ctx.fillStyle = grad
+    ctx.fillRect(0, h - band, w, band)
+
+    const logo = this._logo
+    let logoW = 0
+    if (logo?.complete && logo.naturalWidth) {
+      const logoH = Math.round(Math.min(w, h) * 0.09)
+      logoW = Math.round(logoH * logo.naturalWidth / logo.naturalHeight)
+      ctx.drawImage(logo, w - pad - logoW, h - pad - logoH, logoW, logoH)
+    }
+
+    if (this.opts.snapshotTitle) {
+      const size = Math.round(Math.min(w, h) * 0.045)
+      ctx.font         = `600 ${size}px 'Helvetica Neue', Helvetica, Arial, sans-serif`
+      ctx.fillStyle    = '#fff'
+      ctx.textBaseline = 'bottom'
+      ctx.shadowColor  = 'rgba(0,0,0,0.5)'
+      ctx.shadowBlur   = size / 4
+      ctx.fillText(this._getCurrentLabel(), pad, h - pad, w - 3 * pad - logoW)
+    }
+    return out
+  }
+
+  private _download(blob: Blob, name: string): void {
+    const url = URL.createObjectURL(blob)
+    const a   = document.createElement('a')
+    a.href     = url
+    a.download = name
+    document.body.appendChild(a)
+    a.click()
+    a.remove()
+    setTimeout(() => URL.revokeObjectURL(url), 1000)
+  }
+
+  /** Starts loading the snapshot logo once, so it is ready by the first tap. */
+  private _loadLogo(): void {
+    const url = this.opts.snapshotLogoUrl
+    if (!url || this._logo) return
+    this._logo = new Image()
+    this._logo.crossOrigin = 'anonymous'
+    this._logo.src = url
+  }
+
   // ── Close ─────────────────────────────────────────────────────────────────
 
   private _close(onClose: () => void): void {
+    if (!this.overlay) return   // already closing (button during the fade, Back)
     cancelAnimationFrame(this.rafId)
+    this._loadSeq++
+    this.videoTex?.image.pause()
+    this.narration.stop()
+    this._exitStereo()
     this._stopGyro()
     this._stopTouchDrag()
+    this._stopPinch()
+    this._stopSwipe()
+    this._stopDesktopControls()
+    this._stopIdleWatch()
+    this._stopHistory()
     this._stopResizeHandler()
+    this.opts.miniMap?.unmount()
     const el = this.overlay
     if (el) {
       el.classList.remove('v360-visible')
       setTimeout(() => { el.remove(); this._fullDispose() }, 380)
     }
-    this.overlay = null
+    this.overlay  = null
+    this._markers = []
     onClose()
   }
 
+  // ── Debug report ──────────────────────────────────────────────────────────
+
+  /**
+   * Lists the manifest issues in a panel on top of everything (AR included),
+   * so it stays visible when a hotspot without images closes the viewer.
+   */
+  private _showDebugReport(report: ManifestReport): void {
+    document.getElementById('v360-debug')?.remove()
+    const errors   = report.issues.filter(i => i.level === 'error').length
+    const warnings = report.issues.length - errors
+
+    const panel = document.createElement('div')
+    panel.id = 'v360-debug'
+    panel.innerHTML = `
+      <div id="v360-debug-head">
+        <span>manifest.json — ${errors} error(s), ${warnings} warning(s)</span>
+        <button id="v360-debug-close" aria-label="Close">×</button>
+      </div>
+      <ul></ul>
+    `
+    const list = panel.querySelector('ul')!
+    for (const issue of report.issues) {
+      const li = document.createElement('li')
+      li.className   = `v360-debug-${issue.level}`
+      li.textContent = formatIssue(issue)
+      list.appendChild(li)
+    }
+    panel.querySelector('#v360-debug-close')!.addEventListener('click', () => panel.remove())
+    document.body.appendChild(panel)
+  }
+
   // ── Three.js ──────────────────────────────────────────────────────────────
 
   private _initRenderer(): void {
@@ -627,7 +1971,8 @@ export class Viewer360 {
     this.renderer.setSize(window.innerWidth, window.innerHeight)
 
     this.scene  = new THREE.Scene()
-    this.camera = new THREE.PerspectiveCamera(75, window.innerWidth / window.innerHeight, 0.1, 1000)
+    this._fov   = this._clampFov(DEFAULT_FOV)
+    this.camera = new THREE.PerspectiveCamera(this._fov, window.innerWidth / window.innerHeight, 0.1, 1000)
 
     // Fewer segments on iOS to reduce GPU geometry memory.
     const [wSegs, hSegs] = ios ? [48, 32] : [60, 40]
@@ -635,12 +1980,14 @@ export class Viewer360 {
     geo.scale(-1, 1, 1)
     this.sphere = new THREE.Mesh(geo, new THREE.MeshBasicMaterial({ color: 0x1a2a3a }))
     this.scene.add(this.sphere)
+    this.transition = new TransitionLayer(THREE, this.scene)
 
     this.texLoader = new THREE.TextureLoader()
     this._euler    = new THREE.Euler()
     this._q1       = new THREE.Quaternion(-Math.sqrt(0.5), 0, 0, Math.sqrt(0.5))
     this._qOrient  = new THREE.Quaternion()
     this._zee      = new THREE.Vector3(0, 0, 1)
+    this._v3       = new THREE.Vector3()
 
     // WebGL context-loss handler — prevents an invisible hang on iOS when the
     // browser reclaims GPU memory and invalidates our context.
@@ -653,19 +2000,25 @@ export class Viewer360 {
     canvas.addEventListener('webglcontextrestored', () => {
       console.warn('[Viewer360] WebGL context restored')
       // Re-apply current texture and restart the loop.
-      const key = this._key(this.currentFolder, this.currentImages[this.currentIdx] ?? '')
-      const tex = this.texCache.get(key) ?? null
-      this._applySphereTexture(tex)
+      const tex = this.videoTex ?? this.texCache.peek(this._currentKey())
+      this._applyTexture(tex)
       this._startLoop()
     }, false)
   }
 
   private _fullDispose(): void {
-    for (const tex of this.texCache.values()) {
-      if (tex) tex.dispose()
-    }
-    this.texCache.clear()
-    this.texPending.clear()
+    // Frees every GPU copy; up to the retain budget stays cached for reopening.
+    this.texCache.release()
+    this._holdOutgoing = false
+
+    this.tiled?.dispose()
+    this.tiled = null
+
+    this._disposeVideo(this.videoTex)
+    this.videoTex = null
+
+    this.transition?.dispose()
+    this.transition = null
 
     if (this.sphere) {
       this.sphere.geometry.dispose()
@@ -719,11 +2072,22 @@ export class Viewer360 {
     this._gyroOk = true
     this._gyroHandler = (e: DeviceOrientationEvent) => {
       if (e.alpha === null) return
-      this._alpha = e.alpha
-      this._beta  = e.beta  ?? 90
-      this._gamma = e.gamma ?? 0
+      this._alpha    = e.alpha
+      this._beta     = e.beta  ?? 90
+      this._gamma    = e.gamma ?? 0
+      this._gyroSeen = true
+      // iOS reports the compass on the regular event; some Android builds
+      // flag the regular event itself as absolute.
+      const compass = (e as any).webkitCompassHeading
+      if (typeof compass === 'number' && compass >= 0) this._heading = compass
+      else if (e.absolute)                             this._heading = 360 - e.alpha
+    }
+    // Chrome on Android: absolute alpha arrives on a separate event.
+    this._absHandler = (e: DeviceOrientationEvent) => {
+      if (e.alpha !== null) this._heading = 360 - e.alpha
     }
     window.addEventListener('deviceorientation', this._gyroHandler)
+    window.addEventListener('deviceorientationabsolute' as any, this._absHandler)
   }
 
   private _stopGyro(): void {
@@ -731,10 +2095,97 @@ export class Viewer360 {
       window.removeEventListener('deviceorientation', this._gyroHandler)
       this._gyroHandler = null
     }
-    this._gyroOk = false
+    if (this._absHandler) {
+      window.removeEventListener('deviceorientationabsolute' as any, this._absHandler)
+      this._absHandler = null
+    }
+    this._gyroOk   = false
+    this._gyroSeen = false
   }
 
-  // ── Touch drag (fallback when no gyro) ────────────────────────────────────
+  /**
+   * Switches between gyro + drag and drag only, keeping the current view.
+   * The first tap without a granted gyro asks for permission — this runs
+   * inside the click's user-gesture stack, as iOS requires.
+   */
+  private async _toggleGyro(): Promise<void> {
+    if (this._gyroOk) {
+      this._exitStereo()
+      const { yaw, pitch } = this._cameraYawPitch()
+      this._stopGyro()
+      this._drag.lon = yaw
+      this._drag.lat = Math.max(-85, Math.min(85, pitch))
+    } else {
+      if (!this._gyroAvailable) this._gyroAvailable = await this._requestGyroPermission()
+      if (!this.overlay) return
+      if (this._gyroAvailable) {
+        this._aimYaw         = this._drag.lon
+        this._pitchOff       = 0
+        this._headingPending = true
+        this._startGyro()
+      }
+    }
+    this._updateGyroToggle()
+  }
+
+  private _updateGyroToggle(): void {
+    const btn = this.overlay?.querySelector<HTMLElement>('#v360-gyro-toggle')
+    if (!btn) return
+    btn.classList.toggle('v360-gyro-on', this._gyroOk)
+    btn.textContent = this._gyroOk ? 'Gyro on' : 'Touch mode'
+    this.overlay?.querySelector('#v360-stereo-toggle')
+      ?.classList.toggle('v360-hidden', !this._gyroAvailable)
+  }
+
+  // ── Cardboard (stereo) mode ───────────────────────────────────────────────
+
+  /** Switches to side-by-side rendering; turns the gyro on first if needed. */
+  private async _enterStereo(): Promise<void> {
+    if (this.stereo) return
+    if (!this._gyroOk) await this._toggleGyro()
+    if (!this._gyroOk || !this.renderer || !this.overlay) return
+    this.stereo = new StereoRenderer(this.THREE, this.renderer)
+    this._hideCard()
+    this.overlay.classList.add('v360-stereo')
+  }
+
+  private _exitStereo(): void {
+    if (!this.stereo) return
+    this.stereo.dispose()
+    this.stereo = null
+    this.overlay?.classList.remove('v360-stereo')
+  }
+
+  /** Current camera direction in panorama degrees (see header). */
+  private _cameraYawPitch(): { yaw: number; pitch: number } {
+    if (!this.camera) return { yaw: this._drag.lon, pitch: this._drag.lat }
+    const v = this.camera.getWorldDirection(this._v3)
+    const yaw = Math.atan2(v.z, v.x) * 180 / Math.PI
+    return {
+      yaw:   (yaw + 360) % 360,
+      pitch: Math.asin(Math.max(-1, Math.min(1, v.y))) * 180 / Math.PI,
+    }
+  }
+
+  /**
+   * Sets the additive alpha offset so the current device pose looks at the
+   * yaw kept by _toggleGyro, else the image's north-aligned heading
+   * (northOffset + compass) when both are known, else its initialYaw.
+   *
+   * With beta = 90 (phone upright) the camera yaw in panorama degrees is
+   * 270 − (alpha + _yawOff), hence the 270 below.
+   */
+  private _aimGyro(): void {
+    const { yaw, north } = this._imageView()
+    const target = this._aimYaw ?? (
+      north !== null && this._heading !== null ? north + this._heading : yaw
+    )
+    this._aimYaw = null
+    this._yawOff = 270 - target - this._alpha
+    this._headingPending = false
+  }
+
+  // ── Touch drag ────────────────────────────────────────────────────────────
 
   private _startTouchDrag(): void {
     const d = this._drag
@@ -746,11 +2197,7 @@ export class Viewer360 {
     }
     this._onTouchMove = (e: TouchEvent) => {
       if (!d.active || e.touches.length !== 1) return
-      d.lon  -= (e.touches[0].clientX - d.lastX) * 0.25
-      d.lat  += (e.touches[0].clientY - d.lastY) * 0.15
-      d.lat   = Math.max(-85, Math.min(85, d.lat))
-      d.lastX = e.touches[0].clientX
-      d.lastY = e.touches[0].clientY
+      this._dragTo(e.touches[0].clientX, e.touches[0].clientY)
     }
     this._onTouchEnd = () => { d.active = false }
 
@@ -760,6 +2207,27 @@ export class Viewer360 {
     canvas.addEventListener('touchend',   this._onTouchEnd,   { passive: true })
   }
 
+  /** Moves the view by the pointer delta since the last drag event. */
+  private _dragTo(x: number, y: number): void {
+    const d = this._drag
+    // Scale by zoom so the image tracks the finger at any FOV.
+    const k  = this._fov / DEFAULT_FOV
+    const dx = (x - d.lastX) * k
+    const dy = (y - d.lastY) * k
+    if (this._gyroOk) {
+      // Additive Euler offsets on top of the gyro pose (β + pitchOff,
+      // α + yawOff) — yaw = 270 − (α + yawOff), so dragging right adds.
+      this._yawOff  += dx * 0.25
+      this._pitchOff = Math.max(-60, Math.min(60, this._pitchOff + dy * 0.15))
+    } else {
+      d.lon -= dx * 0.25
+      d.lat += dy * 0.15
+      d.lat  = Math.max(-85, Math.min(85, d.lat))
+    }
+    d.lastX = x
+    d.lastY = y
+  }
+
   private _stopTouchDrag(): void {
     const canvas = document.getElementById('v360-canvas')
     if (!canvas) return
@@ -769,18 +2237,319 @@ export class Viewer360 {
     this._onTouchStart = this._onTouchMove = this._onTouchEnd = null
   }
 
+  // ── Pinch zoom ────────────────────────────────────────────────────────────
+
+  private _clampFov(fov: number): number {
+    return Math.max(this.opts.minFov, Math.min(this.opts.maxFov, fov))
+  }
+
+  private _setFov(fov: number): void {
+    this._fov = this._clampFov(fov)
+    if (!this.camera) return
+    this.camera.fov = this._fov
+    this.camera.updateProjectionMatrix()
+  }
+
+  private _startPinch(): void {
+    const p      = this._pinch
+    const spread = (t: TouchList) =>
+      Math.hypot(t[0].clientX - t[1].clientX, t[0].clientY - t[1].clientY)
+
+    this._onPinchStart = (e: TouchEvent) => {
+      if (e.touches.length !== 2) return
+      p.active      = true
+      p.startSpread = spread(e.touches)
+      p.startFov    = this._fov
+    }
+    this._onPinchMove = (e: TouchEvent) => {
+      if (!p.active || e.touches.length !== 2 || p.startSpread < 10) return
+      // Fingers apart → narrower FOV (zoom in).
+      this._setFov(p.startFov * p.startSpread / Math.max(10, spread(e.touches)))
+    }
+    this._onPinchEnd = (e: TouchEvent) => {
+      if (e.touches.length < 2) p.active = false
+    }
+
+    const canvas = document.getElementById('v360-canvas')!
+    canvas.addEventListener('touchstart',  this._onPinchStart, { passive: true })
+    canvas.addEventListener('touchmove',   this._onPinchMove,  { passive: true })
+    canvas.addEventListener('touchend',    this._onPinchEnd,   { passive: true })
+    canvas.addEventListener('touchcancel', this._onPinchEnd,   { passive: true })
+  }
+
+  private _stopPinch(): void {
+    this._pinch.active = false
+    const canvas = document.getElementById('v360-canvas')
+    if (!canvas) return
+    if (this._onPinchStart) canvas.removeEventListener('touchstart',  this._onPinchStart)
+    if (this._onPinchMove)  canvas.removeEventListener('touchmove',   this._onPinchMove)
+    if (this._onPinchEnd) {
+      canvas.removeEventListener('touchend',    this._onPinchEnd)
+      canvas.removeEventListener('touchcancel', this._onPinchEnd)
+    }
+    this._onPinchStart = this._onPinchMove = this._onPinchEnd = null
+  }
+
+  // ── Swipe to change image ─────────────────────────────────────────────────
+
+  /**
+   * Runs alongside touch drag and pinch: the gesture is only classified when
+   * the fingers lift, so look-around and zoom behave as usual until then.
+   * A recognised swipe navigates, and navigation resets the view anyway.
+   */
+  private _startSwipe(): void {
+    const sw      = this._swipe
+    const centre  = (t: TouchList) => t.length === 1
+      ? { x: t[0].clientX, y: t[0].clientY, spread: 0 }
+      : {
+          x:      (t[0].clientX + t[1].clientX) / 2,
+          y:      (t[0].clientY + t[1].clientY) / 2,
+          spread: Math.hypot(t[0].clientX - t[1].clientX, t[0].clientY - t[1].clientY),
+        }
+
+    this._onSwipeStart = (e: TouchEvent) => {
+      sw.fingers = e.touches.length <= 2 ? e.touches.length : 0
+      if (!sw.fingers) return
+      const c = centre(e.touches)
+      sw.startT = performance.now()
+      sw.startX = sw.lastX = c.x
+      sw.startY = sw.lastY = c.y
+      sw.startSpread = sw.lastSpread = c.spread
+    }
+    this._onSwipeMove = (e: TouchEvent) => {
+      if (!sw.fingers || e.touches.length !== sw.fingers) return
+      const c = centre(e.touches)
+      sw.lastX      = c.x
+      sw.lastY      = c.y
+      sw.lastSpread = c.spread
+    }
+    this._onSwipeEnd = (e: TouchEvent) => {
+      if (!sw.fingers || e.touches.length >= sw.fingers) return
+      const fingers = sw.fingers
+      sw.fingers = 0
+      if (e.type === 'touchcancel' || this.stereo) return
+
+      const dx = sw.lastX - sw.startX
+      const dy = sw.lastY - sw.startY
+      const dt = performance.now() - sw.startT
+      if (Math.abs(dx) < SWIPE_MIN_PX || Math.abs(dx) < 2 * Math.abs(dy)) return
+
+      if (fingers === 1) {
+        const edge = window.innerWidth * SWIPE_EDGE_FRAC
+        if (dt > SWIPE_FLICK_MS) return
+        if (dx < 0 && sw.startX < window.innerWidth - edge) return
+        if (dx > 0 && sw.startX > edge) return
+      } else {
+        if (dt > SWIPE_TWO_FINGER_MS || sw.startSpread < 10) return
+        if (Math.abs(sw.lastSpread / sw.startSpread - 1) > SWIPE_SPREAD_TOL) return
+      }
+      // Content follows the finger, as in photo galleries: leftwards = next.
+      void this._navigateTo(this.currentIdx + (dx < 0 ? 1 : -1))
+    }
+
+    const canvas = document.getElementById('v360-canvas')!
+    canvas.addEventListener('touchstart',  this._onSwipeStart, { passive: true })
+    canvas.addEventListener('touchmove',   this._onSwipeMove,  { passive: true })
+    canvas.addEventListener('touchend',    this._onSwipeEnd,   { passive: true })
+    canvas.addEventListener('touchcancel', this._onSwipeEnd,   { passive: true })
+  }
+
+  private _stopSwipe(): void {
+    this._swipe.fingers = 0
+    const canvas = document.getElementById('v360-canvas')
+    if (!canvas) return
+    if (this._onSwipeStart) canvas.removeEventListener('touchstart', this._onSwipeStart)
+    if (this._onSwipeMove)  canvas.removeEventListener('touchmove',  this._onSwipeMove)
+    if (this._onSwipeEnd) {
+      canvas.removeEventListener('touchend',    this._onSwipeEnd)
+      canvas.removeEventListener('touchcancel', this._onSwipeEnd)
+    }
+    this._onSwipeStart = this._onSwipeMove = this._onSwipeEnd = null
+  }
+
+  // ── Desktop mouse + keyboard ──────────────────────────────────────────────
+
+  /**
+   * Mouse drag shares _drag with touch; move / up listen on window so a drag
+   * that leaves the canvas still ends. Keys are ignored while a modifier is
+   * held so browser shortcuts keep working.
+   */
+  private _startDesktopControls(onClose: () => void): void {
+    const d      = this._drag
+    const canvas = document.getElementById('v360-canvas')!
+
+    this._onMouseDown = (e: MouseEvent) => {
+      if (e.button !== 0) return
+      d.active = true
+      d.lastX  = e.clientX
+      d.lastY  = e.clientY
+      canvas.classList.add('v360-grabbing')
+    }
+    this._onMouseMove = (e: MouseEvent) => {
+      if (d.active) this._dragTo(e.clientX, e.clientY)
+    }
+    this._onMouseUp = () => {
+      d.active = false
+      canvas.classList.remove('v360-grabbing')
+    }
+    this._onWheel = (e: WheelEvent) => {
+      e.preventDefault()
+      const dy = e.deltaMode === WheelEvent.DOM_DELTA_LINE ? e.deltaY * 16 : e.deltaY
+      this._setFov(this._fov * Math.exp(dy * 0.001))
+    }
+    this._onKeyDown = (e: KeyboardEvent) => {
+      if (e.altKey || e.ctrlKey || e.metaKey) return
+      switch (e.key) {
+        case 'ArrowLeft':
+        case 'PageUp':
+          void this._navigateTo(this.currentIdx - 1)
+          break
+        case 'ArrowRight':
+        case 'PageDown':
+          void this._navigateTo(this.currentIdx + 1)
+          break
+        case 'Escape':
+          // First Escape leaves cardboard mode or dismisses an open card / picker.
+          if (this.stereo) this._exitStereo()
+          else if (this.overlay?.querySelector('#v360-card.v360-card-visible')) this._hideCard()
+          else if (this.overlay?.classList.contains('v360-thumbs-open')) this._toggleThumbs(false)
+          else this._close(onClose)
+          break
+        default:
+          return
+      }
+      e.preventDefault()
+    }
+
+    canvas.addEventListener('mousedown', this._onMouseDown)
+    canvas.addEventListener('wheel',     this._onWheel, { passive: false })
+    window.addEventListener('mousemove', this._onMouseMove)
+    window.addEventListener('mouseup',   this._onMouseUp)
+    window.addEventListener('keydown',   this._onKeyDown)
+  }
+
+  private _stopDesktopControls(): void {
+    const canvas = document.getElementById('v360-canvas')
+    if (canvas) {
+      if (this._onMouseDown) canvas.removeEventListener('mousedown', this._onMouseDown)
+      if (this._onWheel)     canvas.removeEventListener('wheel',     this._onWheel)
+    }
+    if (this._onMouseMove) window.removeEventListener('mousemove', this._onMouseMove)
+    if (this._onMouseUp)   window.removeEventListener('mouseup',   this._onMouseUp)
+    if (this._onKeyDown)   window.removeEventListener('keydown',   this._onKeyDown)
+    this._onMouseDown = this._onMouseMove = this._onMouseUp = null
+    this._onWheel     = null
+    this._onKeyDown   = null
+  }
+
+  // ── URL / history ─────────────────────────────────────────────────────────
+
+  /**
+   * Pushes a history entry carrying the viewer hash, so the browser's Back
+   * button pops it and closes the viewer. Closing from the UI pops it too,
+   * but only while that entry is still the current one.
+   */
+  private _startHistory(onClose: () => void): void {
+    this._historyId++
+    this._pushHistory()
+    this._onPopState = () => {
+      this._historyPushed = false   // already popped by the browser
+      this._close(onClose)
+    }
+    window.addEventListener('popstate', this._onPopState)
+  }
+
+  private _stopHistory(): void {
+    if (this._onPopState) window.removeEventListener('popstate', this._onPopState)
+    this._onPopState = null
+    if (this._historyPushed) {
+      this._historyPushed = false
+      if (history.state?.[HISTORY_STATE_KEY] !== this._historyId) return
+      history.back()
+      // back() is async: a viewer reopened meanwhile has pushed its own entry,
+      // which this pop removes. Not a Back press — restore the entry instead.
+      window.addEventListener('popstate', e => {
+        if (!this._historyPushed) return
+        e.stopImmediatePropagation()
+        this._pushHistory()
+      }, { once: true })
+    }
+  }
+
+  private _pushHistory(): void {
+    const state = typeof history.state === 'object' ? history.state : null
+    history.pushState({ ...state, [HISTORY_STATE_KEY]: this._historyId }, '', this._viewerHash())
+    this._historyPushed = true
+  }
+
+  /** Keeps the hash in sync while navigating, without adding history entries. */
+  private _updateUrl(): void {
+    if (this._historyPushed) history.replaceState(history.state, '', this._viewerHash())
+  }
+
+  private _viewerHash(): string {
+    return formatViewerHash({ hotspot: this.currentHotspot, idx: this.currentIdx })
+  }
+
+  // ── Idle auto-rotate / slideshow ──────────────────────────────────────────
+
+  /**
+   * Any pointer, wheel or key input anywhere in the overlay counts as
+   * interaction; listening in the capture phase catches it before individual
+   * controls handle it.
+   */
+  private _startIdleWatch(): void {
+    this._lastInput   = performance.now()
+    this._onIdleReset = () => { this._lastInput = performance.now() }
+    this.overlay?.addEventListener('pointerdown', this._onIdleReset, { capture: true, passive: true })
+    this.overlay?.addEventListener('touchstart',  this._onIdleReset, { capture: true, passive: true })
+    this.overlay?.addEventListener('wheel',       this._onIdleReset, { capture: true, passive: true })
+    window.addEventListener('keydown', this._onIdleReset, { capture: true })
+  }
+
+  private _stopIdleWatch(): void {
+    if (!this._onIdleReset) return
+    this.overlay?.removeEventListener('pointerdown', this._onIdleReset, { capture: true })
+    this.overlay?.removeEventListener('touchstart',  this._onIdleReset, { capture: true })
+    this.overlay?.removeEventListener('wheel',       this._onIdleReset, { capture: true })
+    window.removeEventListener('keydown', this._onIdleReset, { capture: true })
+    this._onIdleReset = null
+  }
+
+  /** Called every frame in touch mode; `dt` in seconds. */
+  private _idleStep(now: number, dt: number): void {
+    const { idleRotateMs, idleRotateSpeed, slideshowMs } = this.opts
+    if (!idleRotateMs || this._drag.active || this._pinch.active) return
+    const idleSince = this._lastInput + idleRotateMs
+    if (now < idleSince) return
+
+    this._drag.lon = (this._drag.lon + idleRotateSpeed * dt) % 360
+
+    // The slideshow waits for a playing narration to finish.
+    if (slideshowMs <= 0 || this.currentImages.length < 2 || this.narration.playing) return
+    if (now - Math.max(idleSince, this._lastSlide) < slideshowMs) return
+    this._lastSlide = now
+    void this._navigateTo((this.currentIdx + 1) % this.currentImages.length)
+  }
+
   // ── Render loop ───────────────────────────────────────────────────────────
 
   private _startLoop(): void {
     const { THREE } = this
 
+    this._lastFrame = performance.now()
     const tick = () => {
       if (!this.renderer) return
       this.rafId = requestAnimationFrame(tick)
 
+      const now = performance.now()
+      const dt  = Math.min(0.1, (now - this._lastFrame) / 1000)
+      this._lastFrame = now
+
       if (this._gyroOk) {
-        const alpha  = THREE.MathUtils.degToRad(this._alpha)
-        const beta   = THREE.MathUtils.degToRad(this._beta)
+        if (this._headingPending && this._gyroSeen) this._aimGyro()
+        const alpha  = THREE.MathUtils.degToRad(this._alpha + this._yawOff)
+        const beta   = THREE.MathUtils.degToRad(this._beta + this._pitchOff)
         const gamma  = THREE.MathUtils.degToRad(this._gamma)
         const orient = THREE.MathUtils.degToRad(getOrientAngleDeg())
         this._euler.set(beta, alpha, -gamma, 'YXZ')
@@ -789,6 +2558,7 @@ export class Viewer360 {
         this._qOrient.setFromAxisAngle(this._zee, -orient)
         this.camera.quaternion.multiply(this._qOrient)
       } else {
+        this._idleStep(now, dt)
         const phi   = THREE.MathUtils.degToRad(90 - this._drag.lat)
         const theta = THREE.MathUtils.degToRad(this._drag.lon)
         this.camera.lookAt(
@@ -798,7 +2568,16 @@ export class Viewer360 {
         )
       }
 
-      this.renderer.render(this.scene, this.camera)
+      this.tiled?.update(this.camera, window.innerHeight)
+      this.transition?.update(this.camera, now)
+      this._releaseOutgoing()
+      if (this.stereo) {
+        this.stereo.render(this.scene, this.camera)
+      } else {
+        this.renderer.render(this.scene, this.camera)
+        this._updateMarkers()
+        this._updateMiniMap()
+      }
     }
 
     tick()